@@ -1,24 +1,5 @@
 import { NextResponse } from 'next/server';
-import { initializeApp, getApps, cert } from 'firebase-admin/app';
-import { getFirestore } from 'firebase-admin/firestore';
-
-// Initialize Firebase Admin SDK
-// Ensure your environment variables are set in .env.local
-const serviceAccount = {
-  projectId: process.env.FIREBASE_PROJECT_ID,
-  clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-  // Replace the escaped newlines in the private key
-  privateKey: (process.env.FIREBASE_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
-};
-
-// Check if the app is already initialized to prevent duplicates
-if (!getApps().length) {
-  initializeApp({
-    credential: cert(serviceAccount),
-  });
-}
-
-const db = getFirestore(); // Get Firestore instance from Admin SDK
+import { adminDb as db } from '@/lib/firebaseAdmin'; // Firestore instance from Admin SDK
 
 // POST handler for /api/auth/onSignUp
 export async function POST(request: Request) {
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchService } from '@/lib/search';
+import { emptyFilters } from '@/lib/searchFilters';
+
+const maxPapers = 250; // Largest page the search backends return in one request
+
+// GET handler for /api/authors/[name]: the author's papers, co-authors and categories
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ name: string }> }
+) {
+    try {
+        const { name } = await params;
+        const author = name.trim(); // Next.js has already decoded the route param
+
+        if (!author) {
+            return NextResponse.json(
+                { error: 'Author name is required' },
+                { status: 400 }
+            );
+        }
+
+        const searchService = getSearchService();
+        const filters = { ...emptyFilters, authors: [author] };
+
+        const [results, facets] = await Promise.all([
+            searchService.search({ query: '*', filters, page: 1, perPage: maxPapers, sortBy: 'year_desc' }),
+            // Counted within the author's papers, so the authors facet lists their co-authors
+            searchService.facets('*', filters, false),
+        ]);
+
+        if (results.found === 0) {
+            return NextResponse.json(
+                { error: 'Author not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            name: author,
+            paperCount: results.found,
+            papers: results.hits.map(hit => hit.document),
+            coAuthors: facets.authors.filter(facet => facet.value !== author),
+            categories: facets.categories,
+        });
+    } catch (error) {
+        console.error('Error fetching author:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch author' },
+            { status: 500 }
+        );
+    }
+}
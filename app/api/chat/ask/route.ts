@@ -1,205 +1,332 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { QdrantClient } from '@qdrant/js-client-rest';
-import { pipeline } from '@xenova/transformers';
+import { buildChatContext, buildMultiPaperContext, contextStrategies, defaultContextOptions, estimateTokens, type ChatContext, type ContextStrategy } from '@/lib/chatContext';
+import { formatServerSentEvent } from '@/lib/sse';
+import { completeWithFallback, preferredModel, streamWithFallback, type LlmMessage, type LlmResult } from '@/lib/llm';
+import { getAuthenticatedUser } from '@/lib/serverAuth';
+import { citedSources, type ChunkSource } from '@/lib/chunkCitations';
+import { appendTurns, createConversation, getConversation, parseFocus, parseHistory, trimHistory, turnContent, type Conversation, type ConversationTurn } from '@/lib/conversations';
+import { getSearchService, type PaperDocument } from '@/lib/search';
+import { emptyFilters } from '@/lib/searchFilters';
+import { lookUpAnswer } from '@/lib/answerCache';
+import { checkChatLimits, recordChatTokens } from '@/lib/chatLimits';
 
 // --- Route Segment Config for Vercel ---
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
-// --- Configuration ---
-const qdrantCollectionName = 'paper_chunks'; 
-const embeddingModelName = 'Xenova/all-MiniLM-L6-v2'; 
-// Using stable paid model to bypass free tier rate limits
-const llmModelNames = [
-  'openai/gpt-4o-mini', 
-  'google/gemini-2.0-flash', 
-  'mistralai/mistral-7b-instruct', 
-];
-
-
-// --- Initialize Qdrant Client ---
-const qdrantClient = new QdrantClient({
-    url: process.env.QDRANT_URL,
-    apiKey: process.env.QDRANT_API_KEY,
-});
-
-// --- Load Embedding Model (Singleton) ---
-class EmbeddingPipelineSingleton {
-  static task = 'feature-extraction' as const;
-  static model = embeddingModelName;
-  static instancePromise: Promise<any> | null = null; 
-
-  static async getInstance(progress_callback: Function | null = null) {
-    if (!this.instancePromise) {
-      console.log('Loading embedding model for chat API...');
-      
-      this.instancePromise = pipeline(
-          this.task, 
-          this.model, 
-          { ...(progress_callback !== null && { progress_callback }) }
-      );
-      
-      try {
-        await this.instancePromise; 
-        console.log('Embedding model loaded.');
-      } catch (error) {
-         console.error("Failed to load embedding model:", error);
-         this.instancePromise = null; 
-         throw error; 
-      }
-    }
-    return this.instancePromise;
+// --- CORS Headers ---
+// Only the app itself (APP_URL) may call chat from a browser; without a valid APP_URL, same-origin only
+function appOrigin(): string | null {
+  if (!process.env.APP_URL) return null;
+  try {
+    return new URL(process.env.APP_URL).origin;
+  } catch {
+    console.warn(`APP_URL is not a valid URL (${process.env.APP_URL}); chat only accepts same-origin requests.`);
+    return null;
   }
 }
 
-
-// --- Helper Function: Format Chunks into Context String ---
-function formatContext(chunks: any[]): string {
-    if (!chunks || chunks.length === 0) {
-        return "No text data was retrieved for the paper.";
-    }
-    
-    // Sort all chunks by their index to reassemble the document in order
-    chunks.sort((a, b) => (a.payload?.chunkIndex ?? Infinity) - (b.payload?.chunkIndex ?? Infinity));
-    
-    // Concatenate the text of all chunks to pass the entire document text
-    return chunks.map(chunk => chunk.payload?.chunkText || '').join('\n');
-}
-
-// --- CORS Headers ---
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
+const allowedOrigin = appOrigin();
+const corsHeaders: Record<string, string> = {
+  ...(allowedOrigin && { 'Access-Control-Allow-Origin': allowedOrigin }),
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Expose-Headers': 'Retry-After',
 };
 
+const noAnswerText = "I couldn't find the answer in the document text.";
+
+// Most papers a multi-paper question can span
+const maxChatPapers = 10;
+
+// Called once the answer is complete, or with what was generated when the client stops it
+type AnswerCallback = (answer: string, stopped: boolean, model: string | null) => Promise<void>;
+
+// --- Helper Function: Stream the Answer as Server-Sent Events ---
+// Events: `context` (how the context was built, conversation id, whether the answer is cached),
+// `token` ({ text }) as tokens arrive, then `done` ({ model }) or `error` ({ message }).
+// `generate` yields the answer, e.g. from streamWithFallback; aborting the client request
+// aborts the signal it is given.
+function streamAnswer(generate: (signal: AbortSignal) => AsyncIterable<LlmResult>, meta: Record<string, unknown>, requestSignal: AbortSignal, onAnswer: AnswerCallback): Response {
+    const encoder = new TextEncoder();
+    const upstream = new AbortController();
+    requestSignal.addEventListener('abort', () => upstream.abort());
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+            send('context', meta);
+
+            let answer = '';
+            let answeredBy: string | null = null;
+            try {
+                for await (const { text, model } of generate(upstream.signal)) {
+                    answer += text;
+                    answeredBy = model;
+                    send('token', { text });
+                }
+                if (!answer) {
+                    answer = noAnswerText;
+                    send('token', { text: noAnswerText });
+                }
+                await onAnswer(answer, false, answeredBy);
+                send('done', { model: answeredBy });
+            } catch (error) {
+                if (upstream.signal.aborted) {
+                    console.log('Chat stream aborted by the client.');
+                    if (answer) await onAnswer(answer, true, answeredBy).catch(err => console.error('Error saving stopped answer:', err));
+                    return;
+                }
+                console.error('Error while streaming chat answer:', error);
+                send('error', { message: error instanceof Error ? error.message : 'An unknown error occurred' });
+            }
+            controller.close();
+        },
+        cancel() {
+            upstream.abort();
+        },
+    });
+
+    return new Response(body, {
+        headers: {
+            ...corsHeaders,
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        },
+    });
+}
+
+// --- Helper Function: Resolve the Papers of a Multi-Paper Question ---
+// Either the given ids, in the order given, or the top search results for a query
+async function resolvePapers(paperIds: unknown, query: unknown): Promise<PaperDocument[]> {
+    const searchService = getSearchService();
+    if (Array.isArray(paperIds)) {
+        const ids = [...new Set(paperIds.filter((id): id is string => typeof id === 'string' && id !== ''))].slice(0, maxChatPapers);
+        const documents = await searchService.getPapers(ids);
+        return ids.flatMap(id => documents.find(doc => doc.id === id) ?? []);
+    }
+    const { hits } = await searchService.search({
+        query: String(query),
+        filters: emptyFilters,
+        page: 1,
+        perPage: maxChatPapers,
+        sortBy: 'relevance',
+    });
+    return hits.map(hit => hit.document);
+}
+
 // --- OPTIONS Handler for Preflight ---
 export async function OPTIONS() {
-  return new NextResponse(null, { status: 204, headers: corsHeaders as any });
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
 }
 
 // --- POST Handler for /api/chat/ask ---
 export async function POST(request: NextRequest) {
   try {
-    const { paperId, message } = await request.json();
+    // --- Require a Signed-In User ---
+    // Every question spends LLM credits, so it is counted against the user's limits
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to use chat.' }, { status: 401, headers: { ...corsHeaders, 'WWW-Authenticate': 'Bearer' } });
+    }
+
+    const body = await request.json();
+    const { paperId, paperIds, query, message, strategy = 'top_k', stream = false, conversationId } = body;
+    // Passage selected in the PDF ("Explain this selection"); questions about one paper only
+    const focus = paperId ? parseFocus(body.focus) : undefined;
 
-    if (!paperId || !message) {
-      return NextResponse.json({ message: 'Missing paperId or message' }, { status: 400 });
+    // A question is about one paper (paperId), or across several: a list of paperIds or
+    // the top results for a search query
+    const multiPaper = !paperId && (Array.isArray(paperIds) || (typeof query === 'string' && query.trim() !== ''));
+    if (!message || (!paperId && !multiPaper)) {
+      return NextResponse.json({ message: 'Missing message, or paperId, paperIds or query' }, { status: 400, headers: corsHeaders });
+    }
+    if (!contextStrategies.includes(strategy)) {
+      return NextResponse.json({ message: `Invalid strategy. Use one of: ${contextStrategies.join(', ')}` }, { status: 400, headers: corsHeaders });
+    }
+    if (multiPaper && strategy !== 'top_k') {
+      return NextResponse.json({ message: 'Questions across several papers only support the top_k strategy' }, { status: 400, headers: corsHeaders });
     }
 
-    // --- RAG Step 1 & 2: Bypass Semantic Search, Retrieve ALL Chunks ---
-    console.log(`Retrieving ALL chunks for paper ${paperId} to pass entire document...`);
-    
-    let allChunks = [];
-    let offset;
-
-    while (true) {
-        const scrollResponse = await qdrantClient.scroll(qdrantCollectionName, {
-            filter: { 
-                must: [{ key: 'paperId', match: { value: paperId } }]
-            },
-            with_payload: true, 
-            with_vector: false, // <-- FIXED: Changed from 'with_vectors' to 'with_vector'
-            limit: 500, 
-            offset: offset 
-        });
-
-        // --- FIXED: Direct destructuring of properties ---
-        const { points, next_page_offset } = scrollResponse; 
-
-        allChunks.push(...points);
-        offset = next_page_offset; // Use next_page_offset for pagination
-
-        if (offset === null || points.length === 0) {
-            break; 
-        }
+    // --- Rate Limit and Daily Quota (by the user's role) ---
+    const limitCheck = await checkChatLimits(user.uid);
+    if (!limitCheck.allowed) {
+      return NextResponse.json(
+        { message: limitCheck.message, reason: limitCheck.reason, retryAfterSeconds: limitCheck.retryAfterSeconds },
+        { status: 429, headers: { ...corsHeaders, 'Retry-After': String(limitCheck.retryAfterSeconds) } }
+      );
     }
 
-    console.log(`Retrieved total of ${allChunks.length} chunks to represent the full paper.`);
+    // --- Load Prior Turns ---
+    // Conversations about one paper are stored in Firestore; multi-paper questions send
+    // their prior turns as `history`, which is used but not stored.
+    let conversation: Conversation | null = null;
+    let history: ConversationTurn[];
+    if (!multiPaper) {
+      conversation = conversationId
+        ? await getConversation(user.uid, conversationId)
+        : await createConversation(user.uid, paperId, message);
+      if (!conversation || conversation.paperId !== paperId) {
+        return NextResponse.json({ message: 'Conversation not found' }, { status: 404, headers: corsHeaders });
+      }
+      history = conversation.turns;
+    } else {
+      history = parseHistory(body.history);
+    }
+    const priorTurns = trimHistory(history);
+
+    // --- Store the Question and Answer (conversations about one paper) ---
+    const askedAt = new Date().toISOString();
+    const saveTurns = async (answer: string, stopped: boolean, answerStrategy: ContextStrategy, sources: ChunkSource[], cached = false) => {
+      if (!conversation) return;
+      await appendTurns(user.uid, conversation.id, [
+        { role: 'user', content: message, createdAt: askedAt, focus },
+        {
+          role: 'assistant',
+          content: answer,
+          createdAt: new Date().toISOString(),
+          strategy: answerStrategy,
+          sources,
+          ...(stopped && { stopped }),
+          ...(cached && { cached }),
+        },
+      ]);
+    };
+
+    // --- Answer Cache: Opening Questions About One Paper ---
+    // Follow-ups depend on the conversation so far, and questions about a selection on the
+    // passage, so only plain first questions are cached
+    const cacheLookup = !multiPaper && !focus && priorTurns.length === 0
+      ? await lookUpAnswer({ paperId, question: message, strategy: strategy as ContextStrategy, model: preferredModel() })
+      : null;
+    if (cacheLookup?.cached) {
+      const { cached } = cacheLookup;
+      console.log(`Answer cache hit for paper ${paperId} (similarity ${cached.similarity.toFixed(3)}).`);
+      const cachedMeta = {
+        strategy: cached.strategy,
+        contextChunks: cached.sources.map(source => source.chunkIndex),
+        contextTokens: 0, // No context was built
+        sources: cached.sources,
+        conversationId: conversation?.id ?? null,
+        cached: { question: cached.question, createdAt: cached.createdAt }, // The client labels the answer as cached
+      };
+      const saveCachedAnswer: AnswerCallback = (answer, stopped) => saveTurns(answer, stopped, cached.strategy, cached.sources, true);
+      if (stream) {
+        return streamAnswer(async function* () {
+          yield { text: cached.answer, model: cached.model };
+        }, cachedMeta, request.signal, saveCachedAnswer);
+      }
+      await saveCachedAnswer(cached.answer, false, cached.model);
+      return NextResponse.json({ response: cached.answer, ...cachedMeta }, { status: 200, headers: corsHeaders });
+    }
+
+    // --- RAG Step 1 & 2: Retrieve Context Within the Token Budget ---
+    // Follow-ups like "what about the second experiment?" are retrieved together with
+    // the previous question so they land on the same part of the paper. Questions about a
+    // selection are retrieved with the passage, which comes out of the budget.
+    const previousQuestion = [...priorTurns].reverse().find(turn => turn.role === 'user');
+    const retrievalQuery = focus
+      ? `${focus.text}\n${message}`
+      : previousQuestion ? `${previousQuestion.content}\n${message}` : message;
+    const contextOptions = focus
+      ? { ...defaultContextOptions, tokenBudget: Math.max(0, defaultContextOptions.tokenBudget - estimateTokens(focus.text)) }
+      : defaultContextOptions;
+    let papers: PaperDocument[] = [];
+    let context: ChatContext;
+    if (multiPaper) {
+      papers = await resolvePapers(paperIds, query);
+      if (papers.length === 0) {
+        return NextResponse.json({ message: 'No papers found' }, { status: 404, headers: corsHeaders });
+      }
+      context = await buildMultiPaperContext(papers, retrievalQuery);
+      console.log(`Built context across ${papers.length} papers: ${context.sources.length} chunks, ~${context.estimatedTokens} tokens, ${priorTurns.length} prior turns.`);
+    } else {
+      context = await buildChatContext(paperId, retrievalQuery, strategy as ContextStrategy, contextOptions);
+      console.log(`Built ${context.strategy} context for paper ${paperId}: ${context.chunkIndexes.length} chunks, ~${context.estimatedTokens} tokens, ${priorTurns.length} prior turns.`);
+    }
 
-    // 3. Construct the Prompt
-    const context = formatContext(allChunks);
-    const prompt = `You are a meticulous, highly-detailed, and expert AI research assistant. Your primary goal is to provide a comprehensive and exhaustive answer to the user's question by analyzing the ENTIRE document text provided below.
+    // 3. Construct the Prompt: instructions and paper text, then the conversation so far
+    const contextText = context.text || "No text data was retrieved for the paper.";
+    const source = multiPaper
+      ? { name: 'excerpts of the papers', heading: 'Relevant Excerpts, by Paper ([...] marks omitted text)' }
+      : context.strategy === 'full_document'
+        ? { name: 'document text', heading: 'Full Document Text' }
+        : { name: 'excerpts of the document', heading: 'Relevant Excerpts ([...] marks omitted text)' };
+    const citationInstructions = multiPaper
+      ? `The excerpts are grouped by paper, each group starting with a header such as [P1] "Title" (Authors, Year), and divided into passages labelled like [P1.C12]. Attribute every point to the paper it comes from by title or first author, and compare the papers where they differ. After every claim, cite the passages that support it using their labels exactly, e.g. [P1.C12] or [P1.C3, P2.C7]. Never cite a label that does not appear in the text.`
+      : `The text is divided into passages, each starting with a label such as [C12]. After every claim, cite the passages that support it using their labels exactly, e.g. [C12] or [C3, C4]. Never cite a label that does not appear in the text.`;
+    const focusInstructions = focus || priorTurns.some(turn => turn.focus)
+      ? ` When a question comes with a selected passage, it is about that passage: the passage is part of the paper and counts as provided text, and the ${source.name} give its surrounding context.`
+      : '';
+    const systemPrompt = `You are a meticulous, highly-detailed, and expert AI research assistant. Your primary goal is to provide a comprehensive and exhaustive answer to the user's questions by analyzing the ${source.name} provided below.
 
 Instructions:
-1.  Analyze the provided document text in its entirety to find all relevant information.
+1.  Analyze the provided ${source.name} to find all relevant information.
 2.  Provide a detailed, structured, and complete answer, maximizing the accuracy and depth of information extracted from the text.
-3.  If the information is not explicitly present in the provided document text, your ONLY response must be: "I couldn't find the comprehensive answer in the full document text."
+3.  Use the earlier conversation to resolve follow-up questions, but answer only from the provided ${source.name}.${focusInstructions}
+4.  ${citationInstructions}
+5.  If the information is not explicitly present in the provided ${source.name}, your ONLY response must be: "${noAnswerText}"
 
-Full Document Text:
+${source.heading}:
 ---
-${context}
----
-
-User's Question:
-${message}
-
-Answer:`;
+${contextText}
+---`;
+    const messages: LlmMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...priorTurns.map(turn => ({ role: turn.role, content: turnContent(turn) })),
+      { role: 'user', content: turnContent({ content: message, focus }) },
+    ];
 
     console.log(`Prompt constructed. Calling LLM...`);
 
-    let finalAiResponseText = '';
-    let success = false;
-    let lastError = null;
-
-    // 4. Implement Fallback Loop
-    for (const modelName of llmModelNames) {
-        console.log(`Attempting LLM call with model: ${modelName}`);
-
-        const openRouterResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
-                "Content-Type": "application/json",
-                "HTTP-Referer": `http://localhost:3000`, 
-                "X-Title": `Social ArXiv Demo`, 
-            },
-            body: JSON.stringify({
-                model: modelName,
-                messages: [
-                    { "role": "user", "content": prompt }
-                ],
-                stream: false, 
-                temperature: 0.1, 
-            })
-        });
-
-        if (openRouterResponse.status === 429) {
-            const errorBody = await openRouterResponse.text();
-            console.warn(`[FALLBACK] Model ${modelName} hit rate limit (429). Trying next model...`);
-            lastError = `Rate limit hit on ${modelName}.`;
-            continue;
-        }
-
-        if (!openRouterResponse.ok) {
-            const errorBody = await openRouterResponse.text();
-            console.error(`[FATAL] Model ${modelName} returned status ${openRouterResponse.status}`, errorBody);
-            lastError = `Model ${modelName} failed with status ${openRouterResponse.status}.`;
-            break; 
-        }
-
-        // Success!
-        const responseData = await openRouterResponse.json();
-        finalAiResponseText = responseData.choices?.[0]?.message?.content?.trim() || "I couldn't find the comprehensive answer in the full document text.";
-        success = true;
-        break; 
+    // --- Store the Answer, Count Its Tokens, and Cache It Unless It Was Stopped ---
+    const promptTokens = messages.reduce((total, { content }) => total + estimateTokens(content), 0);
+    const saveAnswer: AnswerCallback = async (answer, stopped, model) => {
+      const sources = citedSources(answer, context.sources);
+      await Promise.all([
+        saveTurns(answer, stopped, context.strategy, sources),
+        recordChatTokens(user.uid, promptTokens + estimateTokens(answer)),
+        !stopped && model && cacheLookup?.store({ answer, model, strategy: context.strategy, sources }),
+      ]);
+    };
+    const meta = {
+      strategy: context.strategy,
+      contextChunks: context.chunkIndexes,
+      contextTokens: context.estimatedTokens,
+      sources: context.sources, // The client shows the ones the answer cites
+      conversationId: conversation?.id ?? null,
+      // Multi-paper questions: the papers in context, numbered as in the P1.C12 labels
+      ...(multiPaper && { papers: papers.map((paper, i) => ({ id: paper.id, title: paper.title, number: i + 1 })) }),
+    };
+
+    if (stream) {
+        return streamAnswer(signal => streamWithFallback({ messages, temperature: 0.1, signal }), meta, request.signal, saveAnswer);
     }
 
-    if (!success) {
-        const errorMsg = finalAiResponseText || lastError || "All LLM models failed to return a valid response.";
+    // 4. Call the Configured Models, Falling Back per the Policy
+    let finalAiResponseText: string;
+    let answeredBy: string;
+    try {
+        const result = await completeWithFallback({ messages, temperature: 0.1 });
+        finalAiResponseText = result.text || noAnswerText;
+        answeredBy = result.model;
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : "All LLM models failed to return a valid response.";
         console.error(`Final LLM Failure: ${errorMsg}`);
-        return NextResponse.json({ response: `System Error: ${errorMsg}` }, { status: 500 });
+        return NextResponse.json({ response: `System Error: ${errorMsg}` }, { status: 500, headers: corsHeaders });
     }
 
     console.log('Received final response via Fallback system.');
+    await saveAnswer(finalAiResponseText, false, answeredBy);
 
-    // 5. Return the final AI response
-    return NextResponse.json({ response: finalAiResponseText }, { status: 200, headers: corsHeaders as any });
+    // 5. Return the final AI response and how its context was built
+    return NextResponse.json({ response: finalAiResponseText, ...meta }, { status: 200, headers: corsHeaders });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error in chat/ask API route:', error);
-    const errorMessage = error.message || 'An unknown error occurred';
-    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500, headers: corsHeaders as any });
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Internal Server Error', error: errorMessage }, { status: 500, headers: corsHeaders });
   }
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/serverAuth';
+import { deleteConversation, getConversation } from '@/lib/conversations';
+
+export const runtime = 'nodejs';
+
+// GET handler for /api/conversations/[id]: the conversation with all its turns
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to keep conversations' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const conversation = await getConversation(user.uid, id);
+    if (!conversation) {
+      return NextResponse.json({ message: 'Conversation not found' }, { status: 404 });
+    }
+    return NextResponse.json(conversation, { status: 200 });
+
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to fetch conversation', error: errorMessage }, { status: 500 });
+  }
+}
+
+// DELETE handler for /api/conversations/[id]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to keep conversations' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteConversation(user.uid, id))) {
+      return NextResponse.json({ message: 'Conversation not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to delete conversation', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/serverAuth';
+import { listConversations } from '@/lib/conversations';
+
+export const runtime = 'nodejs';
+
+// GET handler for /api/conversations?paperId=...: the user's conversations about a paper, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to keep conversations' }, { status: 401 });
+    }
+
+    const paperId = request.nextUrl.searchParams.get('paperId');
+    if (!paperId) {
+      return NextResponse.json({ message: 'Missing paperId' }, { status: 400 });
+    }
+
+    const conversations = await listConversations(user.uid, paperId);
+    return NextResponse.json({ conversations }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to list conversations', error: errorMessage }, { status: 500 });
+  }
+}
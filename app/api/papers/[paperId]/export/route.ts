@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchService } from '@/lib/search';
+import { citationFormats, formatCitations, parseCitationFormat } from '@/lib/citations';
+
+// GET handler for /api/papers/[paperId]/export?format=bibtex|ris|csl-json&download=1
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ paperId: string }> }
+) {
+    try {
+        const { paperId } = await params;
+        const format = parseCitationFormat(request.nextUrl.searchParams.get('format'));
+
+        if (!paperId) {
+            return NextResponse.json(
+                { error: 'Paper ID is required' },
+                { status: 400 }
+            );
+        }
+        if (!format) {
+            return NextResponse.json(
+                { error: `Unsupported format. Use one of: ${Object.keys(citationFormats).join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const document = await getSearchService().getPaper(paperId);
+
+        if (!document) {
+            return NextResponse.json(
+                { error: 'Paper not found' },
+                { status: 404 }
+            );
+        }
+
+        const { contentType, extension } = citationFormats[format];
+        const disposition = request.nextUrl.searchParams.get('download') ? 'attachment' : 'inline';
+        return new NextResponse(formatCitations([document], format, request.nextUrl.origin), {
+            headers: {
+                'Content-Type': `${contentType}; charset=utf-8`,
+                'Content-Disposition': `${disposition}; filename="${paperId.replace(/[^\w.-]/g, '_')}.${extension}"`,
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting citation:', error);
+        return NextResponse.json(
+            { error: 'Failed to export citation' },
+            { status: 500 }
+        );
+    }
+}
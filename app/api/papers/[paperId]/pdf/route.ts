@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readUploadedPdf } from '@/lib/uploads';
+
+export const runtime = 'nodejs';
+
+// GET handler for /api/papers/[paperId]/pdf: the PDF of a paper uploaded through the app
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ paperId: string }> }
+) {
+    try {
+        const { paperId } = await params;
+
+        const pdf = await readUploadedPdf(paperId);
+        if (!pdf) {
+            return NextResponse.json(
+                { error: 'PDF not found' },
+                { status: 404 }
+            );
+        }
+
+        return new NextResponse(new Uint8Array(pdf), {
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `inline; filename="${paperId}.pdf"`,
+                // Upload ids are content hashes, so a PDF never changes
+                'Cache-Control': 'public, max-age=31536000, immutable',
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching uploaded PDF:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch the PDF' },
+            { status: 500 }
+        );
+    }
+}
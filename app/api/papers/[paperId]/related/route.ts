@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchService } from '@/lib/search';
+import { findRelatedPapers } from '@/lib/relatedPapers';
+
+export const runtime = 'nodejs';
+
+const defaultLimit = 5;
+const maxLimit = 20;
+
+// GET handler for /api/papers/[paperId]/related?limit=...
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ paperId: string }> }
+) {
+    try {
+        const { paperId } = await params;
+
+        if (!paperId) {
+            return NextResponse.json(
+                { error: 'Paper ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const requestedLimit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+        const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+            ? Math.min(requestedLimit, maxLimit)
+            : defaultLimit;
+
+        const matches = await findRelatedPapers(paperId, limit);
+        if (matches.length === 0) {
+            return NextResponse.json({ paperId, related: [] });
+        }
+
+        // Attach paper metadata; papers missing from the search index are dropped
+        const documents = await getSearchService().getPapers(matches.map(m => m.paperId));
+        const documentsById = new Map(documents.map(doc => [doc.id, doc]));
+
+        const related = matches
+            .filter(m => documentsById.has(m.paperId))
+            .map(m => ({ ...documentsById.get(m.paperId), score: m.score }));
+
+        return NextResponse.json({ paperId, related });
+    } catch (error) {
+        console.error('Error fetching related papers:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch related papers' },
+            { status: 500 }
+        );
+    }
+}
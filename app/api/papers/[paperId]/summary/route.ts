@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchService } from '@/lib/search';
+import { generatePaperSummary, getPaperSummary, SummaryFormatError } from '@/lib/paperSummaries';
+import { getAuthenticatedUser } from '@/lib/serverAuth';
+import { checkChatLimits, recordChatTokens } from '@/lib/chatLimits';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60; // Generating an uncached summary is one LLM call
+
+// GET handler for /api/papers/[paperId]/summary: the cached summary, for anyone. A missing
+// one is generated for signed-in users and counts toward their chat quota.
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ paperId: string }> }
+) {
+    try {
+        const { paperId } = await params;
+
+        if (!paperId) {
+            return NextResponse.json(
+                { error: 'Paper ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const document = await getSearchService().getPaper(paperId);
+        if (!document) {
+            return NextResponse.json(
+                { error: 'Paper not found' },
+                { status: 404 }
+            );
+        }
+
+        const lookup = await getPaperSummary(paperId);
+        if (!lookup) {
+            return NextResponse.json(
+                { error: 'No text has been ingested for this paper' },
+                { status: 404 }
+            );
+        }
+
+        let cached = lookup.cached;
+        if (!cached) {
+            const user = await getAuthenticatedUser(request);
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Sign in to generate a summary of this paper' },
+                    { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+                );
+            }
+
+            const limitCheck = await checkChatLimits(user.uid);
+            if (!limitCheck.allowed) {
+                return NextResponse.json(
+                    { error: limitCheck.message, reason: limitCheck.reason, retryAfterSeconds: limitCheck.retryAfterSeconds },
+                    { status: 429, headers: { 'Retry-After': String(limitCheck.retryAfterSeconds) } }
+                );
+            }
+
+            try {
+                const generated = await generatePaperSummary(paperId, document.title, lookup.ingestedAt);
+                if (generated.tokens > 0) await recordChatTokens(user.uid, generated.tokens);
+                cached = generated.summary;
+            } catch (error) {
+                if (!(error instanceof SummaryFormatError)) throw error;
+                console.warn(`Unreadable summary of paper ${paperId}:`, error.message);
+                if (error.tokens > 0) await recordChatTokens(user.uid, error.tokens);
+                return NextResponse.json(
+                    { error: 'Could not summarize this paper. Try again later.' },
+                    { status: 502, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+                );
+            }
+        }
+
+        return NextResponse.json({
+            paperId,
+            summary: cached.summary,
+            model: cached.model,
+            createdAt: cached.createdAt,
+        });
+    } catch (error) {
+        console.error('Error fetching paper summary:', error);
+        return NextResponse.json(
+            { error: 'Failed to generate the paper summary' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchService } from '@/lib/search';
+import { citationFormats, formatCitations, parseCitationFormat } from '@/lib/citations';
+
+const maxPapers = 250; // Largest page the search backends return in one request
+
+// GET handler for /api/papers/export?ids=a,b,c&format=bibtex|ris|csl-json&download=1
+export async function GET(request: NextRequest) {
+    try {
+        const searchParams = request.nextUrl.searchParams;
+        const ids = [...new Set((searchParams.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean))];
+        const format = parseCitationFormat(searchParams.get('format'));
+
+        if (ids.length === 0) {
+            return NextResponse.json(
+                { error: '"ids" must list at least one paper ID' },
+                { status: 400 }
+            );
+        }
+        if (ids.length > maxPapers) {
+            return NextResponse.json(
+                { error: `At most ${maxPapers} papers can be exported at once` },
+                { status: 400 }
+            );
+        }
+        if (!format) {
+            return NextResponse.json(
+                { error: `Unsupported format. Use one of: ${Object.keys(citationFormats).join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        // Keep the requested order; unknown ids are skipped
+        const documents = await getSearchService().getPapers(ids);
+        const documentsById = new Map(documents.map(doc => [doc.id, doc]));
+        const papers = ids.flatMap(id => documentsById.get(id) ?? []);
+
+        if (papers.length === 0) {
+            return NextResponse.json(
+                { error: 'No papers found' },
+                { status: 404 }
+            );
+        }
+
+        const { contentType, extension } = citationFormats[format];
+        const disposition = searchParams.get('download') ? 'attachment' : 'inline';
+        return new NextResponse(formatCitations(papers, format, request.nextUrl.origin), {
+            headers: {
+                'Content-Type': `${contentType}; charset=utf-8`,
+                'Content-Disposition': `${disposition}; filename="citations.${extension}"`,
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting citations:', error);
+        return NextResponse.json(
+            { error: 'Failed to export citations' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,56 +1,120 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Typesense from 'typesense';
-
-// Initialize Typesense Client (Server-Side)
-// Use Admin key on the server for potentially broader search capabilities if needed
-// Ensure environment variables are set in .env.local
-const typesenseClient = new Typesense.Client({
-    nodes: [{
-        host: process.env.NEXT_PUBLIC_TYPESENSE_HOST || '',
-        port: parseInt(process.env.NEXT_PUBLIC_TYPESENSE_PORT || '443', 10),
-        protocol: process.env.NEXT_PUBLIC_TYPESENSE_PROTOCOL || 'https',
-    }],
-    apiKey: process.env.TYPESENSE_ADMIN_API_KEY || '', // Use Admin key on server
-    connectionTimeoutSeconds: 10,
-});
-
-const collectionName = 'papers'; // Collection name we used in ingest script
-
-// GET handler for /api/papers/search?q=...
+import { parseSearchFilters, parseSortOption, type SortOption } from '@/lib/searchFilters';
+import type { PaperHighlights } from '@/lib/highlights';
+import { reciprocalRankFusion, searchPapersByChunks, type SemanticPaperMatch } from '@/lib/hybridSearch';
+import { getSearchService, type PaperDocument } from '@/lib/search';
+
+// --- Route Segment Config ---
+// Hybrid mode loads the embedding model, which needs the Node.js runtime
+export const runtime = 'nodejs';
+
+const defaultPerPage = 20; // Number of results per page when per_page is not given
+const maxPerPage = 100; // Upper bound accepted for per_page
+const hybridCandidates = 100; // Papers taken from each ranking before fusion
+
+interface PaperHit extends PaperDocument {
+  highlights?: PaperHighlights; // Matched fragments of title, abstract and authors
+  snippet?: { text: string; chunkIndex: number }; // Best-matching passage (hybrid mode only)
+}
+
+// Parse a positive integer query parameter, falling back to a default
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Order fused hits for the non-relevance sort options; Array.sort is stable, so ties keep fused order
+function sortHits(hits: PaperHit[], sortOption: SortOption): PaperHit[] {
+  if (sortOption === 'year_desc') return [...hits].sort((a, b) => (b.year ?? 0) - (a.year ?? 0));
+  if (sortOption === 'year_asc') return [...hits].sort((a, b) => (a.year ?? 0) - (b.year ?? 0));
+  return hits;
+}
+
+// GET handler for /api/papers/search?q=...&category=...&author=...&source=...&yearFrom=...&yearTo=...&page=...&per_page=...&sort_by=...&mode=keyword|hybrid
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const query = searchParams.get('q'); // Get the search query 'q' from URL parameters
-    // Future: Get other filters like category, year from searchParams
+    const filters = parseSearchFilters(searchParams);
+    const page = parsePositiveInt(searchParams.get('page'), 1);
+    const perPage = Math.min(parsePositiveInt(searchParams.get('per_page'), defaultPerPage), maxPerPage);
+    const sortOption = parseSortOption(searchParams.get('sort_by'));
 
     if (!query) {
       return NextResponse.json({ message: 'Search query parameter "q" is required' }, { status: 400 });
     }
 
-    // Define Typesense search parameters
-    const searchParameters = {
-      'q': query,
-      'query_by': 'title,abstract,authors', // Fields to search within
-      'per_page': 20, // Number of results to return
-      // Add filters later: 'filter_by': `year:=${yearValue} && categories:${categoryValue}`
-      // Add sorting later: 'sort_by': 'year:desc'
-    };
+    // Hybrid search needs actual words to embed; the '*' browse query stays keyword-only
+    const mode = searchParams.get('mode') === 'hybrid' && query !== '*' ? 'hybrid' : 'keyword';
+    const searchService = getSearchService();
 
-    console.log('Performing Typesense search with params:', searchParameters);
+    // In hybrid mode the keyword ranking is one input to the fusion,
+    // so fetch the top candidates instead of the requested page.
+    const searchRequest = mode === 'hybrid'
+      ? { query, filters, page: 1, perPage: hybridCandidates, sortBy: 'relevance' as const }
+      : { query, filters, page, perPage, sortBy: sortOption };
 
-    // Perform the search
-    const searchResults = await typesenseClient.collections(collectionName)
-                                 .documents()
-                                 .search(searchParameters);
+    console.log(`Performing ${mode} search with params:`, searchRequest);
+
+    const [searchResults, facets, semanticMatches] = await Promise.all([
+      searchService.search(searchRequest),
+      // Facet counts come from the keyword matches in both modes
+      searchService.facets(query, filters),
+      mode === 'hybrid' ? searchPapersByChunks(query, hybridCandidates) : Promise.resolve([] as SemanticPaperMatch[]),
+    ]);
+
+    // Keep the document data plus its highlighted fragments
+    const keywordHits: PaperHit[] = searchResults.hits.map(hit => ({ ...hit.document, highlights: hit.highlights }));
+
+    if (mode === 'keyword') {
+      // Return a paged envelope with facet counts
+      return NextResponse.json({
+        mode,
+        page,
+        per_page: perPage,
+        found: searchResults.found,
+        sort_by: sortOption,
+        hits: keywordHits,
+        facets,
+      }, { status: 200 });
+    }
+
+    // --- Hybrid: load metadata for semantic matches, dropping papers the filters exclude ---
+    const documentsById = new Map<string, PaperHit>(keywordHits.map(doc => [doc.id, doc]));
+    const missingIds = semanticMatches.map(m => m.paperId).filter(id => !documentsById.has(id));
+    for (const doc of await searchService.getPapers(missingIds, filters)) {
+      documentsById.set(doc.id, doc);
+    }
+    const allowedSemantic = semanticMatches.filter(m => documentsById.has(m.paperId));
+    const snippetsById = new Map(allowedSemantic.map(m => [m.paperId, m]));
 
-    // Extract only the document data from the hits
-    const papers = searchResults.hits?.map(hit => hit.document) || [];
+    // --- Hybrid: fuse both rankings, then sort and page the fused list ---
+    const fused = reciprocalRankFusion([
+      keywordHits.map(doc => doc.id),
+      allowedSemantic.map(m => m.paperId),
+    ]);
+    const fusedHits: PaperHit[] = fused.map(({ id }) => {
+      const match = snippetsById.get(id);
+      return {
+        ...documentsById.get(id)!,
+        ...(match && { snippet: { text: match.chunkText, chunkIndex: match.chunkIndex } }),
+      };
+    });
+    const sortedHits = sortHits(fusedHits, sortOption);
 
-    // Return the search results
-    return NextResponse.json(papers, { status: 200 });
+    return NextResponse.json({
+      mode,
+      page,
+      per_page: perPage,
+      found: sortedHits.length, // Size of the fused candidate list, not the whole collection
+      sort_by: sortOption,
+      hits: sortedHits.slice((page - 1) * perPage, page * perPage),
+      facets,
+    }, { status: 200 });
 
-  } catch (error: any) {
-    console.error('Error in Typesense search API route:', error);
-    return NextResponse.json({ message: 'Search failed', error: error.message }, { status: 500 });
+  } catch (error) {
+    console.error('Error in search API route:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Search failed', error: errorMessage }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchService } from '@/lib/search';
+
+const suggestionsPerType = 5; // Max titles, authors and categories returned each
+
+// GET handler for /api/papers/suggest?q=...
+export async function GET(request: NextRequest) {
+  try {
+    const prefix = (request.nextUrl.searchParams.get('q') || '').trim();
+
+    if (!prefix) {
+      return NextResponse.json({ suggestions: [] }, { status: 200 });
+    }
+
+    const suggestions = await getSearchService().suggest(prefix, suggestionsPerType);
+
+    return NextResponse.json({ suggestions }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error in suggest API route:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Suggest failed', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedSummaries } from '@/lib/paperSummaries';
+
+export const runtime = 'nodejs';
+
+const maxPapers = 100;
+
+// GET handler for /api/papers/summaries?ids=a,b,c: TL;DRs of the papers that already have
+// an up-to-date summary. Never generates one, so it is cheap enough for search results.
+export async function GET(request: NextRequest) {
+    try {
+        const ids = [...new Set((request.nextUrl.searchParams.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean))];
+
+        if (ids.length > maxPapers) {
+            return NextResponse.json(
+                { error: `At most ${maxPapers} papers can be looked up at once` },
+                { status: 400 }
+            );
+        }
+
+        const summaries = await getCachedSummaries(ids);
+        return NextResponse.json({
+            tldrs: Object.fromEntries([...summaries].map(([paperId, cached]) => [paperId, cached.summary.tldr])),
+        });
+    } catch (error) {
+        console.error('Error fetching cached summaries:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch summaries' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/serverAuth';
+import { getSearchService, type PaperDocument } from '@/lib/search';
+import { ingestPaperChunks } from '@/lib/ingest';
+import { extractPaperMetadata, fieldsNeedingReview, requiredMetadataFields, reviewConfidence, type ExtractedField, type ExtractedMetadata } from '@/lib/ingest/metadata';
+import { matchNewPapers } from '@/lib/savedSearches';
+import { deleteUploadedPdf, saveUploadedPdf, uploadedPaperId, uploadedPdfUrl, uploadsEnabled } from '@/lib/uploads';
+import { envInt } from '@/lib/utils';
+
+export const runtime = 'nodejs';
+// Embedding a long paper takes a while on CPU. Above some hosts' default limit (see README).
+export const maxDuration = 300;
+
+const maxUploadBytes = envInt('UPLOAD_MAX_MB', 25) * 1024 * 1024;
+const maxFieldLength = 10000;
+
+// Text field, trimmed and capped; '' when missing
+function textField(form: FormData, name: string): string {
+    const value = form.get(name);
+    return typeof value === 'string' ? value.trim().slice(0, maxFieldLength) : '';
+}
+
+// List field, sent as repeated fields or one value per line (author names can contain commas)
+function listField(form: FormData, name: string): string[] {
+    return form.getAll(name)
+        .flatMap(value => typeof value === 'string' ? value.split('\n') : [])
+        .map(value => value.trim().slice(0, maxFieldLength))
+        .filter(Boolean);
+}
+
+// An extracted value, if the extractor is confident enough to use it
+function confident<T>(extracted: ExtractedField<T> | undefined): T | undefined {
+    return extracted && extracted.confidence >= reviewConfidence ? extracted.value : undefined;
+}
+
+// POST handler for /api/papers/upload: multipart form with a `file` PDF and optional
+// `title`, `abstract`, `authors`, `categories` and `year`; fields left out are extracted
+// from the PDF. When a required field is left out and the extractor isn't confident of it,
+// responds 422 with the fields to send and the extractor's guesses. Runs the same pipeline as
+// scripts/ingest.mjs, then indexes the paper with source 'upload' and the uploader's uid.
+export async function POST(request: NextRequest) {
+    try {
+        if (!uploadsEnabled()) {
+            return NextResponse.json({ error: 'Uploads are not set up on this server' }, { status: 503 });
+        }
+
+        const user = await getAuthenticatedUser(request);
+        if (!user) {
+            return NextResponse.json({ error: 'Sign in to upload papers' }, { status: 401 });
+        }
+
+        const contentLength = Number(request.headers.get('content-length'));
+        if (contentLength > maxUploadBytes + 1024 * 1024) {
+            return NextResponse.json({ error: `PDFs can be at most ${maxUploadBytes / 1024 / 1024} MB` }, { status: 413 });
+        }
+
+        let form: FormData;
+        try {
+            form = await request.formData();
+        } catch {
+            return NextResponse.json({ error: 'Expected a multipart form with a "file" field' }, { status: 400 });
+        }
+
+        const file = form.get('file');
+        if (!(file instanceof File)) {
+            return NextResponse.json({ error: 'A PDF "file" is required' }, { status: 400 });
+        }
+        if (file.size > maxUploadBytes) {
+            return NextResponse.json({ error: `PDFs can be at most ${maxUploadBytes / 1024 / 1024} MB` }, { status: 413 });
+        }
+
+        const pdf = Buffer.from(await file.arrayBuffer());
+        // Check the file itself; the declared type and extension are up to the client
+        if (pdf.subarray(0, 5).toString('latin1') !== '%PDF-') {
+            return NextResponse.json({ error: 'The file is not a PDF' }, { status: 415 });
+        }
+
+        const year = parseInt(textField(form, 'year'), 10);
+        if (textField(form, 'year') && !(year >= 1000 && year <= 9999)) {
+            return NextResponse.json({ error: '"year" must be a four-digit year' }, { status: 400 });
+        }
+
+        const paperId = uploadedPaperId(pdf);
+        const searchService = getSearchService();
+        if (await searchService.getPaper(paperId)) {
+            return NextResponse.json({ error: 'This PDF has already been uploaded', paperId }, { status: 409 });
+        }
+
+        let extracted: ExtractedMetadata;
+        try {
+            extracted = await extractPaperMetadata(pdf);
+        } catch (error) {
+            console.warn(`Could not read uploaded PDF ${paperId}:`, error instanceof Error ? error.message : error);
+            return NextResponse.json({ error: 'The PDF could not be read' }, { status: 422 });
+        }
+        const authors = listField(form, 'authors');
+        const categories = listField(form, 'categories');
+        const provided = { title: textField(form, 'title'), authors: authors.length > 0, abstract: textField(form, 'abstract'), year };
+        // Papers aren't indexed with guessed metadata; the uploader fills in what the extractor isn't sure of
+        const needsReview = fieldsNeedingReview(extracted, requiredMetadataFields.filter(name => !provided[name]));
+        if (needsReview.length > 0) {
+            return NextResponse.json({
+                error: `Could not read the paper's ${needsReview.join(', ')} from the PDF; please fill them in`,
+                needsReview,
+                extracted,
+            }, { status: 422 });
+        }
+
+        await saveUploadedPdf(paperId, pdf);
+        let chunks: number;
+        try {
+            chunks = await ingestPaperChunks(paperId, pdf);
+        } catch (error) {
+            await deleteUploadedPdf(paperId);
+            console.warn(`Could not ingest uploaded PDF ${paperId}:`, error instanceof Error ? error.message : error);
+            return NextResponse.json({ error: 'The PDF could not be read' }, { status: 422 });
+        }
+        if (chunks === 0) {
+            await deleteUploadedPdf(paperId);
+            return NextResponse.json({ error: 'No text could be extracted from the PDF' }, { status: 422 });
+        }
+
+        const arxivId = confident(extracted.arxivId);
+
+        // Indexed after its chunks, so the paper never shows up in search without text to chat about
+        const document: PaperDocument = {
+            id: paperId,
+            title: provided.title || extracted.title!.value,
+            abstract: provided.abstract || extracted.abstract!.value,
+            authors: authors.length > 0 ? authors : extracted.authors!.value,
+            categories: categories.length > 0 ? categories : confident(extracted.categories) ?? [],
+            year: year || extracted.year!.value,
+            ...(arxivId && { arxivId, arxivVersion: confident(extracted.arxivVersion) }),
+            pdfUrl: uploadedPdfUrl(paperId),
+            source: 'upload',
+            uploadedBy: user.uid,
+        };
+        await searchService.upsert(document);
+        console.log(`User ${user.uid} uploaded paper ${paperId}: ${chunks} chunks.`);
+
+        // Alerts are best-effort; the upload has succeeded either way
+        try {
+            await matchNewPapers([paperId]);
+        } catch (error) {
+            console.error('Error matching uploaded paper against saved searches:', error);
+        }
+
+        return NextResponse.json({ paperId, chunks, paper: document }, { status: 201 });
+    } catch (error) {
+        console.error('Error uploading paper:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+        return NextResponse.json({ error: 'Failed to upload the paper', details: errorMessage }, { status: 500 });
+    }
+}
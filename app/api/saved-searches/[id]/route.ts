@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/serverAuth';
+import { deleteSavedSearch, parseSavedSearchInput, updateSavedSearch } from '@/lib/savedSearches';
+
+export const runtime = 'nodejs';
+
+// PATCH handler for /api/saved-searches/[id]: body { name?, query?, filters? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to use saved searches' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const input = parseSavedSearchInput(await request.json().catch(() => null), true);
+    if (typeof input === 'string') {
+      return NextResponse.json({ message: input }, { status: 400 });
+    }
+
+    const savedSearch = await updateSavedSearch(user.uid, id, input);
+    if (!savedSearch) {
+      return NextResponse.json({ message: 'Saved search not found' }, { status: 404 });
+    }
+    return NextResponse.json(savedSearch, { status: 200 });
+
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to update saved search', error: errorMessage }, { status: 500 });
+  }
+}
+
+// DELETE handler for /api/saved-searches/[id]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to use saved searches' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteSavedSearch(user.uid, id))) {
+      return NextResponse.json({ message: 'Saved search not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to delete saved search', error: errorMessage }, { status: 500 });
+  }
+}
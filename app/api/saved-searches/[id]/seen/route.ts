@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/serverAuth';
+import { markSavedSearchSeen } from '@/lib/savedSearches';
+
+export const runtime = 'nodejs';
+
+// POST handler for /api/saved-searches/[id]/seen: clears the unseen matches
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to use saved searches' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await markSavedSearchSeen(user.uid, id))) {
+      return NextResponse.json({ message: 'Saved search not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error marking saved search as seen:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to update saved search', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { matchNewPapers } from '@/lib/savedSearches';
+
+export const runtime = 'nodejs';
+
+// POST handler for /api/saved-searches/match: body { paperIds: string[] }
+// Called by scripts/ingest.mjs after indexing, authenticated with the shared INGEST_SECRET.
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.INGEST_SECRET;
+    if (!secret || request.headers.get('x-ingest-secret') !== secret) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { paperIds } = await request.json();
+    if (!Array.isArray(paperIds) || !paperIds.every(id => typeof id === 'string')) {
+      return NextResponse.json({ message: '"paperIds" must be an array of strings' }, { status: 400 });
+    }
+
+    const alerted = await matchNewPapers(paperIds);
+    console.log(`Matched ${paperIds.length} new papers; ${alerted} saved searches have new matches.`);
+    return NextResponse.json({ ok: true, alerted }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error matching new papers against saved searches:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to match saved searches', error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/serverAuth';
+import { getSearchService } from '@/lib/search';
+import { createSavedSearch, listSavedSearches, parseSavedSearchInput, type SavedSearchInput } from '@/lib/savedSearches';
+
+export const runtime = 'nodejs';
+
+// GET handler for /api/saved-searches: the user's saved searches with their unseen matches
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to use saved searches' }, { status: 401 });
+    }
+
+    const savedSearches = await listSavedSearches(user.uid);
+
+    // Attach metadata for unseen matches so the UI can list them directly
+    const unseenIds = [...new Set(savedSearches.flatMap(s => s.unseenPaperIds))];
+    const papers = await getSearchService().getPapers(unseenIds);
+    const papersById = new Map(papers.map(paper => [paper.id, paper]));
+
+    return NextResponse.json({
+      savedSearches: savedSearches.map(savedSearch => ({
+        ...savedSearch,
+        unseenPapers: savedSearch.unseenPaperIds.flatMap(id => papersById.get(id) ?? []),
+      })),
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error listing saved searches:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to list saved searches', error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST handler for /api/saved-searches: body { name?, query?, filters? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in to use saved searches' }, { status: 401 });
+    }
+
+    const input = parseSavedSearchInput(await request.json().catch(() => null));
+    if (typeof input === 'string') {
+      return NextResponse.json({ message: input }, { status: 400 });
+    }
+
+    const savedSearch = await createSavedSearch(user.uid, input as SavedSearchInput);
+    return NextResponse.json(savedSearch, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating saved search:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ message: 'Failed to save search', error: errorMessage }, { status: 500 });
+  }
+}
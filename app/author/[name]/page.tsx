@@ -0,0 +1,127 @@
+'use client'; // Needed for hooks
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import AuthorLink from '@/components/AuthorLink';
+
+// --- Interfaces ---
+interface AuthorPaper {
+  id: string;
+  title: string;
+  abstract: string;
+  authors: string[];
+  year: number;
+  categories?: string[];
+}
+interface FacetCount {
+  value: string;
+  count: number;
+}
+interface AuthorData { // Response body of /api/authors/[name]
+  name: string;
+  paperCount: number;
+  papers: AuthorPaper[];
+  coAuthors: FacetCount[];
+  categories: FacetCount[];
+}
+
+export default function AuthorPage() {
+  const params = useParams();
+  const name = decodeURIComponent(params.name as string);
+
+  const [author, setAuthor] = useState<AuthorData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // --- Fetch Author Data from API ---
+  useEffect(() => {
+    async function fetchAuthor() {
+      try {
+        const response = await fetch(`/api/authors/${encodeURIComponent(name)}`);
+        if (response.status === 404) {
+          throw new Error(`No papers found for ${name}.`);
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to fetch author: ${response.status}`);
+        }
+        setAuthor(await response.json());
+      } catch (err) {
+        console.error('Error fetching author:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchAuthor();
+  }, [name]);
+
+  if (isLoading) return <div className="p-4">Loading author...</div>;
+  if (error || !author) return <div className="p-4 text-red-600">Error: {error} <Link href="/" className="underline">Go Home</Link></div>;
+
+  // Widest bar in the category chart
+  const maxCategoryCount = Math.max(...author.categories.map(c => c.count), 1);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b p-2 px-4 flex items-center justify-between">
+        <Link href="/" className="text-sm underline"> &lt; Back to Search</Link>
+        <h1 className="text-lg font-semibold truncate px-4">{author.name}</h1>
+        <span className="text-sm text-muted-foreground">{author.paperCount} papers</span>
+      </header>
+
+      <main className="flex flex-1 flex-col gap-6 p-4 sm:flex-row sm:p-6">
+        {/* --- Papers, newest first --- */}
+        <div className="flex-1 space-y-4">
+          {author.papers.map(paper => (
+            <Link href={`/paper/${paper.id}`} key={paper.id} className="block">
+              <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+                <CardHeader>
+                  <CardTitle className="text-lg">{paper.title || `Paper ${paper.id}`}</CardTitle>
+                  <CardDescription className="text-xs">
+                    {paper.year || 'N/A'} · {paper.categories?.join(', ')}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground line-clamp-3">{paper.abstract || 'No abstract available.'}</p>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+
+        <aside className="w-full space-y-6 sm:w-64 shrink-0">
+          {/* --- Co-authors from the authors facet --- */}
+          <div className="space-y-1">
+            <h2 className="font-semibold">Co-authors</h2>
+            {author.coAuthors.length === 0 && <p className="text-sm text-muted-foreground">No co-authors.</p>}
+            {author.coAuthors.map(coAuthor => (
+              <div key={coAuthor.value} className="flex items-center justify-between text-sm">
+                <AuthorLink name={coAuthor.value} className="truncate" />
+                <span className="text-xs text-muted-foreground">{coAuthor.count}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* --- Category distribution --- */}
+          <div className="space-y-1">
+            <h2 className="font-semibold">Categories</h2>
+            {author.categories.map(category => (
+              <div key={category.value} className="text-sm">
+                <div className="flex items-center justify-between">
+                  <span>{category.value}</span>
+                  <span className="text-xs text-muted-foreground">{category.count}</span>
+                </div>
+                <div className="h-1.5 rounded bg-muted">
+                  <div className="h-1.5 rounded bg-primary" style={{ width: `${(category.count / maxCategoryCount) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </aside>
+      </main>
+    </div>
+  );
+}
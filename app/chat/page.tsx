@@ -0,0 +1,198 @@
+'use client'; // Needed for hooks and interactivity
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import CitedAnswer from '@/components/CitedAnswer';
+import { ChatRequestError, streamChatAnswer, type ChatStreamContext } from '@/lib/chatClient';
+import { useAuthUser } from '@/hooks/useAuthUser';
+import type { ChunkSource } from '@/lib/chunkCitations';
+
+// --- Interfaces ---
+interface ChatMessage {
+  sender: 'user' | 'ai';
+  text: string;
+  stopped?: boolean; // The user stopped the answer while it was streaming
+  sources?: ChunkSource[]; // Passages the answer can cite, across all papers
+}
+type ChatPaper = NonNullable<ChatStreamContext['papers']>[number];
+
+// Chat across several papers: /chat?papers=id1,id2 for a selection, or /chat?q=... for the
+// top results of a search. Turns aren't stored; they are sent along with each question.
+function MultiPaperChat() {
+  const user = useAuthUser(); // Chat requires signing in
+  const searchParams = useSearchParams();
+  const paperIds = (searchParams.get('papers') || '').split(',').filter(Boolean);
+  const query = searchParams.get('q') || '';
+
+  const [papers, setPapers] = useState<ChatPaper[]>([]); // Numbered as in the answers' P1, P2... citations
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [inputMessage, setInputMessage] = useState('');
+  const [isAiResponding, setIsAiResponding] = useState(false);
+  const chatAbortController = useRef<AbortController | null>(null); // Aborts the answer being streamed
+
+  // --- List the Selected Papers Before the First Question ---
+  // The answers' `context` event has the authoritative list, e.g. for ?q= searches
+  const paperIdsKey = paperIds.join(',');
+  useEffect(() => {
+    async function fetchPapers() {
+      const found = await Promise.all(paperIdsKey.split(',').filter(Boolean).map(async id => {
+        const response = await fetch(`/api/papers/${encodeURIComponent(id)}`);
+        return response.ok ? [{ id, title: (await response.json()).title as string }] : [];
+      }));
+      setPapers(found.flat().map((paper, i) => ({ ...paper, number: i + 1 })));
+    }
+
+    fetchPapers().catch(err => console.error('Error fetching papers:', err));
+  }, [paperIdsKey]);
+
+  // --- Open a Cited Passage in Its Paper ---
+  function showCitation(source: ChunkSource) {
+    if (!source.paperId) return;
+    window.open(`/paper/${source.paperId}${source.pageNumber ? `?page=${source.pageNumber}` : ''}`, '_blank');
+  }
+
+  // --- Handle Chat Submission (Streaming API Call) ---
+  const handleChatSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!inputMessage.trim() || isAiResponding) return;
+
+    const newUserMessage: ChatMessage = { sender: 'user', text: inputMessage };
+    setMessages(prev => [...prev, newUserMessage]);
+    setInputMessage('');
+    setIsAiResponding(true);
+
+    const controller = new AbortController();
+    chatAbortController.current = controller;
+    // Tokens are appended to the AI message added when the stream starts
+    let answerStarted = false;
+    const updateAnswer = (update: (message: ChatMessage) => ChatMessage) =>
+      setMessages(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+
+    try {
+      await streamChatAnswer({
+        ...(paperIds.length > 0 ? { paperIds } : { query }),
+        message: newUserMessage.text,
+        history: messages.filter(msg => msg.text).map(msg => ({ role: msg.sender === 'user' ? 'user' : 'assistant', content: msg.text })),
+      }, controller.signal, {
+        onContext: context => {
+          answerStarted = true;
+          if (context.papers) setPapers(context.papers);
+          setMessages(prev => [...prev, { sender: 'ai', text: '', sources: context.sources }]);
+        },
+        onToken: text => updateAnswer(message => ({ ...message, text: message.text + text })),
+      });
+    } catch (e) {
+      if (controller.signal.aborted) {
+        if (answerStarted) updateAnswer(message => ({ ...message, stopped: true }));
+        return;
+      }
+      // Signed out, or over a rate limit or quota: the message says what to do
+      if (e instanceof ChatRequestError) {
+        setMessages(prev => [...prev, { sender: 'ai', text: e.message }]);
+        return;
+      }
+      console.error('Chat API Error:', e);
+      setMessages(prev => [...prev, {
+        sender: 'ai',
+        text: `System Error: Failed to get response. Details: ${e instanceof Error ? e.message : 'Unknown error'}`
+      }]);
+    } finally {
+      chatAbortController.current = null;
+      setIsAiResponding(false);
+    }
+  };
+
+  if (paperIds.length === 0 && !query) {
+    return <div className="p-4">Select papers on the search page to ask across them. <Link href="/" className="underline">Go Home</Link></div>;
+  }
+
+  return (
+    <div className="h-screen flex flex-col">
+      <header className="border-b p-2 px-4 flex items-center justify-between">
+        <Link href="/" className="text-sm underline"> &lt; Back to Search</Link>
+        <h1 className="text-lg font-semibold truncate px-4">
+          {query && paperIds.length === 0 ? `Ask across results for "${query}"` : `Ask across ${paperIds.length} papers`}
+        </h1>
+        <span />
+      </header>
+
+      <main className="flex flex-1 min-h-0 flex-col gap-4 p-4 sm:flex-row">
+        {/* --- Papers in the Conversation --- */}
+        <aside className="sm:w-72 shrink-0 space-y-2 overflow-y-auto text-sm">
+          <h2 className="font-semibold">Papers</h2>
+          {papers.length === 0 && (
+            <p className="text-muted-foreground">{query ? 'Listed with the first answer.' : 'Loading papers...'}</p>
+          )}
+          <ol className="space-y-2">
+            {papers.map(paper => (
+              <li key={paper.id} className="flex gap-2">
+                <span className="text-muted-foreground">P{paper.number}</span>
+                <Link href={`/paper/${paper.id}`} className="hover:underline">{paper.title}</Link>
+              </li>
+            ))}
+          </ol>
+        </aside>
+
+        {/* --- Chat --- */}
+        <div className="flex flex-1 min-h-0 flex-col border rounded p-2">
+          <div className="flex flex-col flex-1 overflow-y-auto space-y-4 p-2 my-2">
+            {messages.filter(msg => msg.text || msg.stopped).map((msg, index) => (
+              <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`rounded-lg px-3 py-2 max-w-[80%] ${msg.sender === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+                  {msg.sender === 'ai' && msg.sources
+                    ? <CitedAnswer text={msg.text} sources={msg.sources} onCite={showCitation} />
+                    : <p className="whitespace-pre-wrap">{msg.text}</p>}
+                  {msg.stopped && <p className="mt-1 text-xs text-muted-foreground">Stopped</p>}
+                </div>
+              </div>
+            ))}
+            {/* Shown until the first token of the answer arrives */}
+            {isAiResponding && !(messages[messages.length - 1]?.sender === 'ai' && messages[messages.length - 1].text) && (
+              <div className="flex justify-start">
+                <div className="rounded-lg px-3 py-2 bg-muted animate-pulse">Thinking...</div>
+              </div>
+            )}
+            {messages.length === 0 && !isAiResponding && (user === null ? (
+              <p className="text-sm text-muted-foreground text-center pt-4"><Link href="/login" className="underline">Sign in</Link> to ask questions across papers.</p>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center pt-4">Ask a question to compare or combine these papers.</p>
+            ))}
+          </div>
+
+          <form onSubmit={handleChatSubmit} className="flex w-full items-center space-x-2 border-t pt-2">
+            <Input
+              id="message"
+              placeholder="Ask across these papers..."
+              className="flex-1"
+              autoComplete="off"
+              value={inputMessage}
+              onChange={(e) => setInputMessage(e.target.value)}
+              disabled={isAiResponding || user === null}
+            />
+            {isAiResponding ? (
+              <Button type="button" size="sm" variant="outline" onClick={() => chatAbortController.current?.abort()}>
+                Stop
+              </Button>
+            ) : (
+              <Button type="submit" size="sm" disabled={!inputMessage.trim()}>
+                Send
+              </Button>
+            )}
+          </form>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the rest of the page can be prerendered
+export default function ChatPage() {
+  return (
+    <Suspense fallback={<div className="p-4">Loading...</div>}>
+      <MultiPaperChat />
+    </Suspense>
+  );
+}
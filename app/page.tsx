@@ -1,31 +1,23 @@
 'use client'; // Needed for useState, useEffect, event handlers
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
-import Typesense from 'typesense'; // Keep for initial load if preferred, or remove if search handles all
-import { Input } from "@/components/ui/input";
+import { useRouter } from 'next/navigation';
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
-// Remove Firestore imports if still present
-// import { db } from '@/lib/firebaseConfig';
-// import { collection, getDocs, query, limit } from "firebase/firestore";
-
-// --- Typesense Client Initialization (Can optionally be removed if initial load uses API) ---
-// Keep this only if you want the initial load separate from search API
-const typesenseClient = new Typesense.Client({
-    nodes: [{
-        host: process.env.NEXT_PUBLIC_TYPESENSE_HOST || '', // Use env var
-        port: parseInt(process.env.NEXT_PUBLIC_TYPESENSE_PORT || '443', 10), // Use env var
-        protocol: process.env.NEXT_PUBLIC_TYPESENSE_PROTOCOL || 'https', // Use env var
-    }],
-    // Use the SEARCH ONLY key for client-side fetching
-    apiKey: process.env.NEXT_PUBLIC_TYPESENSE_SEARCH_ONLY_API_KEY || '', // Use env var
-    connectionTimeoutSeconds: 5, // Shorter timeout for client-side
-});
-
-// Define an interface for the paper data structure (matching Typesense fields)
+import FilterSidebar from '@/components/FilterSidebar';
+import SearchSuggestInput from '@/components/SearchSuggestInput';
+import SavedSearches from '@/components/SavedSearches';
+import { useAuthUser } from '@/hooks/useAuthUser';
+import Highlighted, { segmentsText } from '@/components/Highlighted';
+import AuthorLink from '@/components/AuthorLink';
+import CitationExport from '@/components/CitationExport';
+import type { PaperHighlights } from '@/lib/highlights';
+import { appendSearchFilters, emptyFilters, sortOptions, type FacetCounts, type SearchFilters, type SortOption, type Suggestion } from '@/lib/searchFilters';
+
+// Define an interface for the paper data structure (matching the search index fields)
 interface PaperDocument {
-  id: string; // Document ID from Typesense (same as our paperId)
+  id: string; // Document ID in the search index (same as our paperId)
   title: string;
   abstract: string;
   authors: string[];
@@ -33,72 +25,170 @@ interface PaperDocument {
   pdfUrl: string;
   categories?: string[]; // Optional fields
   source?: string;
+  highlights?: PaperHighlights; // Matched fragments returned by the search API
+  snippet?: { text: string; chunkIndex: number }; // Best-matching passage in hybrid search
 }
-interface PaperHit { // Needed if using client-side Typesense directly
-  document: PaperDocument;
+type SearchMode = 'keyword' | 'hybrid';
+interface SearchResult { // Response body of /api/papers/search
+  mode: SearchMode;
+  page: number;
+  per_page: number;
+  found: number;
+  hits: PaperDocument[];
+  facets: FacetCounts;
 }
 
+// Render the author list, highlighting the authors that matched the query
+function AuthorList({ paper }: { paper: PaperDocument }) {
+  const authors = Array.isArray(paper.authors) ? paper.authors : [];
+  if (authors.length === 0) return <>{'Unknown Authors'}</>;
+
+  const matched = paper.highlights?.authors || [];
+  return (
+    <>
+      {authors.map((author, index) => (
+        <span key={index}>
+          {index > 0 && ', '}
+          {/* Raised above the card's stretched title link so it stays clickable */}
+          <AuthorLink name={author} className="relative z-10">
+            <Highlighted segments={matched.find(segments => segmentsText(segments) === author)} fallback={author} />
+          </AuthorLink>
+        </span>
+      ))}
+    </>
+  );
+}
+
+const emptyFacets: FacetCounts = { categories: [], authors: [], year: [], source: [] };
+const searchDebounceMs = 300; // Delay before searching while the user is typing
+
 
 export default function HomePage() {
+  const router = useRouter();
+  const user = useAuthUser(); // Saved searches are only shown to signed-in users
   const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(emptyFilters); // Active facet filters
   const [papers, setPapers] = useState<PaperDocument[]>([]); // State to hold papers
+  const [facets, setFacets] = useState<FacetCounts>(emptyFacets); // Facet counts for the sidebar
+  const [sortBy, setSortBy] = useState<SortOption>('relevance');
+  const [searchMode, setSearchMode] = useState<SearchMode>('keyword'); // Hybrid also matches full-text passages
+  const [page, setPage] = useState(1); // Last page loaded into the grid
+  const [found, setFound] = useState(0); // Total number of matches for the current search
+  const [selectedIds, setSelectedIds] = useState<string[]>([]); // Papers picked for citation export or multi-paper chat; kept across searches
+  const [showTldrs, setShowTldrs] = useState(false); // Show cached summary TL;DRs on the cards
+  const [tldrs, setTldrs] = useState<Record<string, string | null>>({}); // By paper id; null when the paper has no summary yet
   const [isLoading, setIsLoading] = useState(true); // Loading state
   const [error, setError] = useState<string | null>(null); // Error state
   const [isSearching, setIsSearching] = useState(false); // State for search loading
+  const latestRequest = useRef(0); // Used to drop responses that arrive out of order
+  const loadMoreRef = useRef<HTMLDivElement>(null); // Sentinel below the grid for infinite scroll
 
 
   // --- Function to Fetch Papers (Used for Initial Load and Search) ---
-  const fetchPapers = async (query = '*') => { // Default to '*' for initial load
-      setIsLoading(query === '*'); // Only show initial loading spinner
-      setIsSearching(query !== '*'); // Show searching indicator
+  const fetchPapers = async (query = '*', activeFilters: SearchFilters = emptyFilters, sort: SortOption = 'relevance', mode: SearchMode = 'keyword', pageToLoad = 1) => { // Default to '*' for initial load
+      const requestId = ++latestRequest.current;
+      setIsSearching(true); // Show searching indicator
       setError(null);
       try {
           // *** Use the API route ***
-          const response = await fetch(`/api/papers/search?q=${encodeURIComponent(query)}`); //
+          const params = appendSearchFilters(new URLSearchParams({ q: query, sort_by: sort, mode, page: String(pageToLoad) }), activeFilters);
+          const response = await fetch(`/api/papers/search?${params.toString()}`);
           if (!response.ok) {
               const errorData = await response.json();
               throw new Error(errorData.message || `API request failed with status ${response.status}`);
           }
-          const fetchedPapers: PaperDocument[] = await response.json(); //
+          const result: SearchResult = await response.json();
+          if (requestId !== latestRequest.current) return; // A newer search has started
 
-          setPapers(fetchedPapers);
-          if (fetchedPapers.length === 0 && query !== '*') {
+          // Page 1 replaces the grid, later pages are appended to it
+          setPapers(prev => (pageToLoad === 1 ? result.hits : [...prev, ...result.hits]));
+          setFacets(result.facets);
+          setPage(result.page);
+          setFound(result.found);
+          if (result.hits.length === 0 && query !== '*') {
              console.log(`No results found for "${query}"`);
-             // Optionally set a "no results" state/message here
           }
 
-      } catch (err: any) {
+      } catch (err) {
+          if (requestId !== latestRequest.current) return;
+          const message = err instanceof Error ? err.message : 'Unknown error';
           console.error(`Error fetching papers for query "${query}":`, err);
-          setError(`Failed to load papers: ${err.message || 'Unknown error'}.`);
-          setPapers([]); // Clear papers on error
+          setError(`Failed to load papers: ${message}.`);
+          if (pageToLoad === 1) setPapers([]); // Clear papers on error
       } finally {
-          setIsLoading(false);
-          setIsSearching(false);
+          if (requestId === latestRequest.current) {
+              setIsLoading(false);
+              setIsSearching(false);
+          }
       }
   };
 
 
-  // --- Fetch Initial Papers on Mount ---
+  // --- Load Cached TL;DRs for the Papers on the Grid (when shown) ---
+  // Only summaries someone already generated on a paper page; none are generated here
   useEffect(() => {
-    // Ensure env vars are present before initial fetch
-     if (process.env.NEXT_PUBLIC_TYPESENSE_HOST && process.env.NEXT_PUBLIC_TYPESENSE_SEARCH_ONLY_API_KEY) {
-         fetchPapers(); // Fetch initial papers ('*')
-     } else {
-         setError("Typesense configuration is missing. Check environment variables.");
-         setIsLoading(false);
-         console.error("Missing Typesense NEXT_PUBLIC environment variables");
-     }
-  }, []); // Empty dependency array means this runs once on mount
+    if (!showTldrs) return;
+    const missing = papers.map(paper => paper.id).filter(id => !(id in tldrs)).slice(0, 100);
+    if (missing.length === 0) return;
+
+    async function fetchTldrs() {
+      try {
+        const response = await fetch(`/api/papers/summaries?ids=${missing.map(encodeURIComponent).join(',')}`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch summaries: ${response.status}`);
+        }
+        const data = await response.json();
+        setTldrs(prev => ({ ...prev, ...Object.fromEntries(missing.map(id => [id, data.tldrs[id] ?? null])) }));
+      } catch (err) {
+        console.error('Error fetching TL;DRs:', err);
+      }
+    }
+
+    fetchTldrs();
+  }, [showTldrs, papers, tldrs]);
+
+  // --- Search as the user types or changes filters (debounced) ---
+  useEffect(() => {
+     const timer = setTimeout(() => fetchPapers(searchTerm.trim() || '*', filters, sortBy, searchMode), searchDebounceMs);
+     return () => clearTimeout(timer);
+  }, [searchTerm, filters, sortBy, searchMode]);
+
+
+  // --- Load the next page of results ---
+  const hasMore = papers.length < found;
+  const loadMore = () => {
+    if (!hasMore || isSearching) return;
+    fetchPapers(searchTerm.trim() || '*', filters, sortBy, searchMode, page + 1);
+  };
+
+  // --- Infinite scroll: load more when the sentinel below the grid comes into view ---
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || isSearching) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  });
 
 
   // --- Handle Search Form Submission ---
   const handleSearch = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!searchTerm.trim()) {
-        fetchPapers(); // If search is cleared, fetch initial papers again
-        return;
+    fetchPapers(searchTerm.trim() || '*', filters, sortBy, searchMode); // Search immediately instead of waiting for the debounce
+  };
+
+  // --- Handle a picked typeahead suggestion ---
+  // Authors and categories become filters instead of free text; titles open the paper.
+  const handleSuggestion = (suggestion: Suggestion) => {
+    if (suggestion.type === 'title' && suggestion.paperId) {
+      router.push(`/paper/${suggestion.paperId}`);
+      return;
     }
-    fetchPapers(searchTerm); // Fetch papers based on the search term
+    const key = suggestion.type === 'author' ? 'authors' : 'categories';
+    setFilters(prev => (prev[key].includes(suggestion.value) ? prev : { ...prev, [key]: [...prev[key], suggestion.value] }));
+    setSearchTerm('');
   };
 
   return (
@@ -107,13 +197,10 @@ export default function HomePage() {
         <div className="flex items-center justify-between gap-4">
           <h1 className="text-xl font-semibold whitespace-nowrap">Social arXiv Demo</h1>
           <form onSubmit={handleSearch} className="relative flex-1 max-w-xl">
-            <Input
-              type="search"
-              placeholder="Search papers..."
-              className="w-full rounded-lg bg-background pl-8"
+            <SearchSuggestInput
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              disabled={isSearching}
+              onChange={setSearchTerm}
+              onSelect={handleSuggestion}
             />
             <Button type="submit" size="sm" className="absolute right-0 top-0 h-full rounded-l-none" disabled={isSearching}>
               {isSearching ? 'Searching...' : 'Search'}
@@ -130,30 +217,116 @@ export default function HomePage() {
         </div>
       </header>
 
-      <main className="flex-1 p-4 sm:p-6">
+      <main className="flex flex-1 flex-col gap-6 p-4 sm:flex-row sm:p-6">
+        <div className="w-full space-y-6 sm:w-56 shrink-0">
+          {/* --- Saved Searches (signed-in users) --- */}
+          {user && (
+            <SavedSearches
+              query={searchTerm}
+              filters={filters}
+              onApply={(query, savedFilters) => {
+                setSearchTerm(query);
+                setFilters(savedFilters);
+              }}
+            />
+          )}
+          {/* --- Filter Sidebar --- */}
+          <FilterSidebar filters={filters} facets={facets} onChange={setFilters} />
+        </div>
+
+        <div className="flex-1">
         {/* --- Paper Grid --- */}
         {isLoading && <p>Loading papers...</p>}
         {error && <p className="text-red-600">{error}</p>}
+        {/* --- Result Count and Sorting --- */}
+        {!isLoading && !error && (
+          <div className="mb-4 flex items-center justify-between gap-4 text-sm">
+            <span className="text-muted-foreground">
+              Showing {papers.length} of {found} papers
+            </span>
+            {selectedIds.length > 0 && (
+              <span className="flex items-center gap-2">
+                {selectedIds.length} selected
+                <CitationExport paperIds={selectedIds} label="Export citations" />
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/chat?papers=${selectedIds.map(encodeURIComponent).join(',')}`}>Ask across selected</Link>
+                </Button>
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedIds([])}>
+                  Clear
+                </Button>
+              </span>
+            )}
+            <label className="ml-auto flex items-center gap-2" title="One-line summaries of papers that have been summarized">
+              <input
+                type="checkbox"
+                checked={showTldrs}
+                onChange={(e) => setShowTldrs(e.target.checked)}
+              />
+              Show TL;DRs
+            </label>
+            <label className="flex items-center gap-2" title="Also match passages in the full text of each paper">
+              <input
+                type="checkbox"
+                checked={searchMode === 'hybrid'}
+                onChange={(e) => setSearchMode(e.target.checked ? 'hybrid' : 'keyword')}
+              />
+              Search full text
+            </label>
+            <label className="flex items-center gap-2">
+              Sort by
+              <select
+                className="rounded-md border bg-background px-2 py-1"
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as SortOption)}
+              >
+                {Object.entries(sortOptions).map(([value, option]) => (
+                  <option key={value} value={value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
         {/* Show papers only when not initial loading */}
         {!isLoading && !error && (
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
             {papers.length > 0 ? (
               papers.map((paper) => (
-                <Link href={`/paper/${paper.id}`} key={paper.id}>
-                  <Card className="h-full hover:shadow-lg transition-shadow cursor-pointer">
-                    <CardHeader>
-                      <CardTitle className="text-lg line-clamp-2">{paper.title || `Paper ${paper.id}`}</CardTitle>
-                      <CardDescription className="text-xs"> {/* Opening Tag */}
-                         {(Array.isArray(paper.authors) ? paper.authors.join(', ') : paper.authors) || 'Unknown Authors'} - {paper.year || 'N/A'}
-                      </CardDescription> {/* *** CORRECTED CLOSING TAG *** */}
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-sm text-muted-foreground line-clamp-3">
-                        {paper.abstract || 'No abstract available.'}
+                <Card key={paper.id} className="relative h-full hover:shadow-lg transition-shadow cursor-pointer">
+                  {/* Selection checkbox, raised above the stretched title link */}
+                  <input
+                    type="checkbox"
+                    aria-label="Select for citation export"
+                    className="absolute right-3 top-3 z-10"
+                    checked={selectedIds.includes(paper.id)}
+                    onChange={() => setSelectedIds(prev => (prev.includes(paper.id) ? prev.filter(id => id !== paper.id) : [...prev, paper.id]))}
+                  />
+                  <CardHeader>
+                    <CardTitle className="text-lg line-clamp-2 pr-6">
+                      {/* The title link covers the whole card; author links sit above it */}
+                      <Link href={`/paper/${paper.id}`} className="after:absolute after:inset-0">
+                        <Highlighted segments={paper.highlights?.title} fallback={paper.title || `Paper ${paper.id}`} />
+                      </Link>
+                    </CardTitle>
+                    <CardDescription className="text-xs"> {/* Opening Tag */}
+                       <AuthorList paper={paper} /> - {paper.year || 'N/A'}
+                    </CardDescription> {/* *** CORRECTED CLOSING TAG *** */}
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground line-clamp-3">
+                      {/* Show the matching part of the abstract when the query hit it */}
+                      <Highlighted segments={paper.highlights?.abstract} fallback={paper.abstract || 'No abstract available.'} />
+                    </p>
+                    {showTldrs && tldrs[paper.id] && (
+                      <p className="mt-2 text-xs line-clamp-2"><span className="font-semibold">TL;DR:</span> {tldrs[paper.id]}</p>
+                    )}
+                    {/* Passage from the full text that matched a hybrid search */}
+                    {paper.snippet && (
+                      <p className="mt-2 border-l-2 pl-2 text-xs italic text-muted-foreground line-clamp-3">
+                        &hellip;{paper.snippet.text}&hellip;
                       </p>
-                    </CardContent>
-                  </Card>
-                </Link>
+                    )}
+                  </CardContent>
+                </Card>
               ))
             ) : (
                // Show 'No papers found' only if not loading/searching and there are no errors
@@ -163,6 +336,15 @@ export default function HomePage() {
         )}
         {/* Show searching indicator separate from initial load */}
          {isSearching && !isLoading && <p>Searching...</p>}
+        {/* --- Load More (also triggered by scrolling to the sentinel) --- */}
+        {!isLoading && !error && hasMore && (
+          <div ref={loadMoreRef} className="flex justify-center pt-6">
+            <Button variant="outline" size="sm" onClick={loadMore} disabled={isSearching}>
+              Load more
+            </Button>
+          </div>
+        )}
+        </div>
       </main>
 
       <footer className="border-t bg-background px-4 py-2 text-center text-xs text-muted-foreground sm:px-6">
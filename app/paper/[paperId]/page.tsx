@@ -1,7 +1,7 @@
 'use client'; // Needed for hooks and interactivity
 
-import { useState, useEffect } from 'react';
-import { useParams } from 'next/navigation'; // Hook to get dynamic route params
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useSearchParams } from 'next/navigation'; // Hooks to get dynamic route and query params
 import Link from 'next/link';
 
 // Import Resizable components
@@ -13,6 +13,16 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import RelatedPapers from '@/components/RelatedPapers';
+import AuthorLink from '@/components/AuthorLink';
+import CitationExport from '@/components/CitationExport';
+import { ChatRequestError, streamChatAnswer } from '@/lib/chatClient';
+import { authFetch } from '@/lib/authFetch';
+import { useAuthUser } from '@/hooks/useAuthUser';
+import CitedAnswer from '@/components/CitedAnswer';
+import PaperSummary from '@/components/PaperSummary';
+import type { ChunkSource } from '@/lib/chunkCitations';
+import type { ChatFocus } from '@/lib/conversations';
 
 // --- react-pdf Imports ---
 import { pdfjs, Document, Page } from 'react-pdf';
@@ -27,16 +37,64 @@ pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/b
 interface PaperMetadata {
     title?: string;
     pdfUrl?: string;
+    authors?: string[];
     // Add other fields later if needed
 }
 interface ChatMessage {
     sender: 'user' | 'ai';
     text: string;
+    strategy?: 'top_k' | 'full_document'; // How the answer's context was built
+    stopped?: boolean; // The user stopped the answer while it was streaming
+    sources?: ChunkSource[]; // Passages the answer can cite
+    cached?: boolean; // Reused from an earlier answer to the same or a similar question
+    focus?: ChatFocus; // User messages: the PDF selection the question is about
+}
+interface ConversationSummary { // Item of GET /api/conversations
+    id: string;
+    title: string;
+    updatedAt: string;
+}
+interface ConversationTurn { // Turn of GET /api/conversations/[id]
+    role: 'user' | 'assistant';
+    content: string;
+    strategy?: ChatMessage['strategy'];
+    stopped?: boolean;
+    sources?: ChunkSource[];
+    cached?: boolean;
+    focus?: ChatFocus;
+}
+
+// Shorter text-layer items ("a", "of", "1"), in letters and digits, would match almost any passage
+const minHighlightLength = 4;
+
+// --- Selection Actions ---
+// Questions asked about text selected in the PDF; the selection is sent as focus context
+const selectionActions = [
+    { label: 'Explain', question: 'Explain this passage in plain terms.' },
+    { label: 'Define terms', question: 'Define the technical terms, symbols and abbreviations in this passage.' },
+    { label: 'Find related in paper', question: 'Where else does the paper discuss what this passage is about? Summarize those parts.' },
+];
+const minSelectionLength = 3;
+const maxSelectionLength = 4000; // The chat API keeps at most this many characters
+
+// Letters and digits only, for matching text-layer items against chunk text, where words
+// hyphenated across lines are rejoined and small caps ("A DAM") are one word
+function normalizeText(text: string): string {
+    return text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function toChatMessage(turn: ConversationTurn): ChatMessage {
+    return { sender: turn.role === 'user' ? 'user' : 'ai', text: turn.content, strategy: turn.strategy, stopped: turn.stopped, sources: turn.sources, cached: turn.cached, focus: turn.focus };
 }
 
 export default function PaperPage() {
   const params = useParams(); // Get route parameters
   const paperId = params.paperId as string; // Extract paperId
+  const initialPage = Number(useSearchParams().get('page')) || 1; // ?page=N, e.g. from a citation in multi-paper chat
 
   const [metadata, setMetadata] = useState<PaperMetadata | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -45,11 +103,25 @@ export default function PaperPage() {
   // --- PDF Viewer State ---
   const [numPages, setNumPages] = useState<number | null>(null);
   const [pageNumber, setPageNumber] = useState(1); // Start at page 1
+  const [highlightedPassage, setHighlightedPassage] = useState<string | null>(null); // Cited passage marked in the text layer
+  const [pdfSelection, setPdfSelection] = useState<{ text: string; top: number; left: number } | null>(null); // Selected text and where to show its actions
+  const pdfContainerRef = useRef<HTMLDivElement>(null);
+
+  // --- Side Panel State ---
+  const [sideTab, setSideTab] = useState<'chat' | 'summary'>('chat');
+  const [summaryOpened, setSummaryOpened] = useState(false); // Keeps the summary mounted once loaded
 
   // --- Chat State ---
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isAiResponding, setIsAiResponding] = useState(false);
+  const [useFullDocument, setUseFullDocument] = useState(false); // Send the whole paper instead of retrieved excerpts
+  const chatAbortController = useRef<AbortController | null>(null); // Aborts the answer being streamed
+
+  // --- Conversation State (signed-in users) ---
+  const user = useAuthUser();
+  const [conversationId, setConversationId] = useState<string | null>(null); // null starts a new conversation
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
 
   // --- Fetch Paper Metadata from API ---
   useEffect(() => {
@@ -73,7 +145,8 @@ export default function PaperPage() {
         
         setMetadata({
           title: data.title || `Title for ${paperId}`,
-          pdfUrl: data.pdfUrl || `/pdfs/${paperId}.pdf`
+          pdfUrl: data.pdfUrl || `/pdfs/${paperId}.pdf`,
+          authors: Array.isArray(data.authors) ? data.authors : []
         });
       } catch (err: any) {
         console.error("Error fetching paper metadata:", err);
@@ -89,66 +162,184 @@ export default function PaperPage() {
     fetchMetadata();
   }, [paperId]); // Re-run if paperId changes
 
+  // --- Load Stored Conversations ---
+  const fetchConversations = async () => {
+    const response = await authFetch(`/api/conversations?paperId=${encodeURIComponent(paperId)}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch conversations: ${response.status}`);
+    }
+    const data = await response.json();
+    setConversations(data.conversations);
+    return data.conversations as ConversationSummary[];
+  };
+
+  const openConversation = async (id: string) => {
+    try {
+      const response = await authFetch(`/api/conversations/${id}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch conversation: ${response.status}`);
+      }
+      const data = await response.json();
+      setConversationId(data.id);
+      setMessages((data.turns as ConversationTurn[]).map(toChatMessage));
+    } catch (err) {
+      console.error('Error opening conversation:', err);
+    }
+  };
+
+  const startNewConversation = () => {
+    chatAbortController.current?.abort();
+    setConversationId(null);
+    setMessages([]);
+  };
+
+  // Restore the most recent conversation about this paper once the user is known
+  useEffect(() => {
+    if (!user) return;
+
+    async function restoreLastConversation() {
+      try {
+        const [latest] = await fetchConversations();
+        if (latest) await openConversation(latest.id);
+      } catch (err) {
+        console.error('Error restoring conversation:', err);
+      }
+    }
+
+    restoreLastConversation();
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only when the user or paper changes
+  }, [user, paperId]);
+
   // --- PDF Load Handler ---
    function onDocumentLoadSuccess({ numPages: nextNumPages }: { numPages: number }): void {
      setNumPages(nextNumPages);
-     setPageNumber(1); // Reset to first page on new document load
+     setPageNumber(Math.max(1, Math.min(initialPage, nextNumPages))); // Reset to the requested (or first) page on new document load
      console.log(`PDF loaded successfully with ${nextNumPages} pages.`);
    }
 
+   // --- Jump to a Cited Passage ---
+   function showCitation(source: ChunkSource) {
+       if (source.pageNumber) setPageNumber(Math.min(source.pageNumber, numPages || source.pageNumber));
+       setHighlightedPassage(normalizeText(source.text));
+   }
+
+   // Mark text-layer items that are part of the cited passage. Items are matched on their
+   // normalized text, since ingest rejoins hyphenated words and small caps that the text
+   // layer splits across items (e.g. "repre-" and "sentation").
+   function renderTextItem({ str }: { str: string }): string {
+       const item = normalizeText(str);
+       if (!highlightedPassage || item.length < minHighlightLength || !highlightedPassage.includes(item)) return escapeHtml(str);
+       return `<mark class="bg-yellow-300/60">${escapeHtml(str)}</mark>`;
+   }
+
    // --- Handle Page Navigation ---
    function goToPrevPage() {
+       setPdfSelection(null);
        setPageNumber(prevPageNumber => Math.max(prevPageNumber - 1, 1));
    }
 
    function goToNextPage() {
+       setPdfSelection(null);
        setPageNumber(prevPageNumber => Math.min(prevPageNumber + 1, numPages || 1));
    }
 
-// --- Handle Chat Submission (Real API Call) ---
-const handleChatSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+   // --- Show Actions for Text Selected in the PDF ---
+   function handlePdfMouseUp() {
+       const selection = window.getSelection();
+       const container = pdfContainerRef.current;
+       const text = selection?.toString().replace(/\s+/g, ' ').trim() ?? '';
+       if (!selection || !container || selection.rangeCount === 0 || text.length < minSelectionLength || !container.contains(selection.anchorNode)) {
+           setPdfSelection(null);
+           return;
+       }
+       // Position above the middle of the selection, in the scroll container's coordinates
+       const rect = selection.getRangeAt(0).getBoundingClientRect();
+       const box = container.getBoundingClientRect();
+       setPdfSelection({
+           text: text.slice(0, maxSelectionLength),
+           top: rect.top - box.top + container.scrollTop,
+           left: rect.left - box.left + container.scrollLeft + rect.width / 2,
+       });
+   }
+
+   function askAboutSelection(question: string) {
+       if (!pdfSelection) return;
+       setSideTab('chat');
+       askQuestion(question, { text: pdfSelection.text, pageNumber });
+       setPdfSelection(null);
+       window.getSelection()?.removeAllRanges();
+   }
+
+// --- Handle Chat Submission (Streaming API Call) ---
+const handleChatSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!inputMessage.trim() || isAiResponding) return;
+    askQuestion(inputMessage);
+};
+
+const askQuestion = async (question: string, focus?: ChatFocus) => {
+    if (!question.trim() || isAiResponding) return;
   
-    const newUserMessage: ChatMessage = { sender: 'user', text: inputMessage };
+    const newUserMessage: ChatMessage = { sender: 'user', text: question, focus };
     setMessages(prev => [...prev, newUserMessage]);
-    setInputMessage('');
+    if (!focus) setInputMessage('');
     setIsAiResponding(true);
     setError(null); // Clear previous errors
+
+    const controller = new AbortController();
+    chatAbortController.current = controller;
+    // Tokens are appended to the AI message added when the stream starts, right after the
+    // question; once the messages are replaced (e.g. by a new conversation) there is none
+    let answerStarted = false;
+    const updateAnswer = (update: (message: ChatMessage) => ChatMessage) =>
+      setMessages(prev => prev[prev.length - 2] === newUserMessage && prev[prev.length - 1].sender === 'ai'
+        ? [...prev.slice(0, -1), update(prev[prev.length - 1])]
+        : prev);
   
     try {
-      // 1. Call the backend RAG API route
-      const response = await fetch('/api/chat/ask', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ paperId: paperId, message: newUserMessage.text }),
+      // Turns are stored with the conversation on the server
+      await streamChatAnswer({
+        paperId: paperId,
+        message: newUserMessage.text,
+        strategy: useFullDocument ? 'full_document' : 'top_k',
+        conversationId,
+        focus,
+      }, controller.signal, {
+        // Render the answer as its tokens arrive
+        onContext: context => {
+          answerStarted = true;
+          if (context.conversationId) setConversationId(context.conversationId);
+          setMessages(prev => [...prev, { sender: 'ai', text: '', strategy: context.strategy, sources: context.sources, cached: Boolean(context.cached) }]);
+        },
+        onToken: text => updateAnswer(message => ({ ...message, text: message.text + text })),
       });
-  
-      if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || `API request failed with status ${response.status}`);
+    } catch (e) {
+      if (controller.signal.aborted) {
+        if (answerStarted) updateAnswer(message => ({ ...message, stopped: true }));
+        return;
+      }
+      // Signed out, or over a rate limit or quota: the message says what to do
+      if (e instanceof ChatRequestError) {
+        setMessages(prev => [...prev, { sender: 'ai', text: e.message }]);
+        return;
       }
-  
-      // 2. Extract the AI response from the JSON body
-      const responseData = await response.json();
-      const aiResponseText = responseData.response || "Sorry, I couldn't generate a response.";
-  
-      // 3. Add the real AI response to the chat state
-      const aiResponse: ChatMessage = { sender: 'ai', text: aiResponseText };
-      setMessages(prev => [...prev, aiResponse]);
-  
-    } catch (e: any) {
       console.error('Chat API Error:', e);
       // Add a system error message to the chat
       setMessages(prev => [...prev, {
           sender: 'ai',
-          text: `System Error: Failed to get response. Details: ${e.message}`
+          text: `System Error: Failed to get response. Details: ${e instanceof Error ? e.message : 'Unknown error'}`
       }]);
     } finally {
+      chatAbortController.current = null;
       setIsAiResponding(false);
+      if (user) fetchConversations().catch(err => console.error('Error refreshing conversations:', err));
     }
   };
 
+  // --- Stop the Answer Being Streamed ---
+  const stopChatResponse = () => {
+    chatAbortController.current?.abort();
+  };
+
   // --- Render Logic ---
   if (isLoading) return <div className="p-4">Loading paper...</div>;
   // Show specific PDF loading error or general error
@@ -161,8 +352,23 @@ const handleChatSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
        {/* Header */}
        <header className="border-b p-2 px-4 flex items-center justify-between">
             <Link href="/" className="text-sm underline"> &lt; Back to Search</Link>
-            <h1 className="text-lg font-semibold truncate px-4">{metadata.title || `Paper ${paperId}`}</h1>
-            <div>{/* Placeholder for other controls */}</div>
+            <div className="min-w-0 px-4 text-center">
+              <h1 className="text-lg font-semibold truncate">{metadata.title || `Paper ${paperId}`}</h1>
+              {metadata.authors && metadata.authors.length > 0 && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {metadata.authors.map((author, index) => (
+                    <span key={author}>
+                      {index > 0 && ', '}
+                      <AuthorLink name={author} />
+                    </span>
+                  ))}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <CitationExport paperIds={[paperId]} />
+              <RelatedPapers paperId={paperId} />
+            </div>
        </header>
 
        <ResizablePanelGroup direction="horizontal" className="flex-1 border">
@@ -170,7 +376,22 @@ const handleChatSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
          <ResizablePanel defaultSize={60}>
            <div className="flex flex-col h-full items-center justify-start p-2"> {/* Changed justify-center to start */}
              {/* --- PDF Document Component --- */}
-             <div className="flex-1 w-full overflow-y-auto mb-2 border rounded"> {/* Added border and scroll container */}
+             <div ref={pdfContainerRef} onMouseUp={handlePdfMouseUp} className="relative flex-1 w-full overflow-y-auto mb-2 border rounded"> {/* Added border and scroll container */}
+               {/* Actions for the selected text; mousedown is prevented so the selection survives the click */}
+               {pdfSelection && (
+                 <div
+                   className="absolute z-20 flex -translate-x-1/2 -translate-y-full gap-1 rounded-md border bg-background p-1 shadow-lg"
+                   style={{ top: pdfSelection.top - 4, left: pdfSelection.left }}
+                   onMouseDown={(e) => e.preventDefault()}
+                   onMouseUp={(e) => e.stopPropagation()}
+                 >
+                   {selectionActions.map(action => (
+                     <Button key={action.label} variant="ghost" size="sm" disabled={isAiResponding || user === null} onClick={() => askAboutSelection(action.question)}>
+                       {action.label}
+                     </Button>
+                   ))}
+                 </div>
+               )}
                <Document
                  file={metadata.pdfUrl} // Use the pdfUrl from state
                  onLoadSuccess={onDocumentLoadSuccess}
@@ -187,6 +408,7 @@ const handleChatSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
                      <Page
                        pageNumber={pageNumber}
                        renderTextLayer={true} // Enable text selection
+                       customTextRenderer={renderTextItem} // Highlights the passage of a clicked citation
                        renderAnnotationLayer={false} // Disable annotation layer for simplicity/performance
                        // Dynamically adjust width based on available space, capped at 800px
                        // This requires running client-side, hence 'use client'
@@ -221,28 +443,98 @@ const handleChatSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
          {/* Right Panel: Chat */}
          <ResizablePanel defaultSize={40}>
            <div className="flex flex-col h-full p-2">
-             <span className="font-semibold p-2 border-b">Chat with AI Assistant</span>
+             <div className="flex items-center justify-between p-2 border-b">
+               <div className="flex items-center gap-1">
+                 <Button variant={sideTab === 'chat' ? 'secondary' : 'ghost'} size="sm" onClick={() => setSideTab('chat')}>
+                   Chat
+                 </Button>
+                 <Button
+                   variant={sideTab === 'summary' ? 'secondary' : 'ghost'}
+                   size="sm"
+                   onClick={() => {
+                     setSideTab('summary');
+                     setSummaryOpened(true);
+                   }}
+                 >
+                   Summary
+                 </Button>
+               </div>
+               {sideTab === 'chat' && user && (
+                 <div className="flex items-center gap-2">
+                   {conversations.length > 0 && (
+                     <select
+                       className="max-w-40 rounded-md border bg-background px-1 py-0.5 text-xs"
+                       aria-label="Previous conversations"
+                       value={conversationId ?? ''}
+                       onChange={(e) => (e.target.value ? openConversation(e.target.value) : startNewConversation())}
+                       disabled={isAiResponding}
+                     >
+                       <option value="">New conversation</option>
+                       {conversations.map(conversation => (
+                         <option key={conversation.id} value={conversation.id}>{conversation.title}</option>
+                       ))}
+                     </select>
+                   )}
+                   <Button variant="outline" size="sm" onClick={startNewConversation} disabled={messages.length === 0 || isAiResponding}>
+                     New
+                   </Button>
+                 </div>
+               )}
+               {sideTab === 'chat' && (
+                 <label className="flex items-center gap-2 text-xs text-muted-foreground" title="Best for short papers; long papers fall back to relevant excerpts">
+                   <input
+                     type="checkbox"
+                     checked={useFullDocument}
+                     onChange={(e) => setUseFullDocument(e.target.checked)}
+                   />
+                   Use full document
+                 </label>
+               )}
+             </div>
+             {/* Summary Tab */}
+             {summaryOpened && (
+               <div className={`flex-1 overflow-y-auto my-2 ${sideTab === 'summary' ? '' : 'hidden'}`}>
+                 <PaperSummary paperId={paperId} />
+               </div>
+             )}
              {/* Chat Messages Area */}
-             <div className="flex flex-col flex-1 overflow-y-auto space-y-4 p-2 my-2">
-    {messages.map((msg, index) => (
+             <div className={`flex flex-col flex-1 overflow-y-auto space-y-4 p-2 my-2 ${sideTab === 'chat' ? '' : 'hidden'}`}>
+    {messages.filter(msg => msg.text || msg.stopped).map((msg, index) => (
         <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`rounded-lg px-3 py-2 max-w-[80%] ${msg.sender === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
-                <p className="whitespace-pre-wrap">{msg.text}</p>
+                {msg.focus && (
+                    <blockquote className="mb-1 border-l-2 pl-2 text-xs italic opacity-80 line-clamp-4">
+                        {msg.focus.pageNumber && `p. ${msg.focus.pageNumber}: `}&ldquo;{msg.focus.text}&rdquo;
+                    </blockquote>
+                )}
+                {msg.sender === 'ai' && msg.sources
+                  ? <CitedAnswer text={msg.text} sources={msg.sources} onCite={showCitation} />
+                  : <p className="whitespace-pre-wrap">{msg.text}</p>}
+                {msg.stopped && <p className="mt-1 text-xs text-muted-foreground">Stopped</p>}
+                {msg.strategy && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                        {msg.strategy === 'full_document' ? 'Answered from the full document' : 'Answered from relevant excerpts'}
+                        {msg.cached && ' · Cached answer to the same or a similar question'}
+                    </p>
+                )}
             </div>
         </div>
     ))}
-    {isAiResponding && (
+    {/* Shown until the first token of the answer arrives */}
+    {isAiResponding && !(messages[messages.length - 1]?.sender === 'ai' && messages[messages.length - 1].text) && (
         <div className="flex justify-start">
             <div className="rounded-lg px-3 py-2 bg-muted animate-pulse">Thinking...</div>
         </div>
     )}
-    {messages.length === 0 && !isAiResponding && (
+    {messages.length === 0 && !isAiResponding && (user === null ? (
+        <p className="text-sm text-muted-foreground text-center pt-4"><Link href="/login" className="underline">Sign in</Link> to ask questions about the paper.</p>
+    ) : (
         <p className="text-sm text-muted-foreground text-center pt-4">Ask a question about the paper to start chatting.</p>
-    )}
+    ))}
 </div>
 
              {/* Chat Input Area */}
-             <form onSubmit={handleChatSubmit} className="flex w-full items-center space-x-2 border-t pt-2">
+             <form onSubmit={handleChatSubmit} className={`flex w-full items-center space-x-2 border-t pt-2 ${sideTab === 'chat' ? '' : 'hidden'}`}>
                <Input
                  id="message"
                  placeholder="Ask about this paper..."
@@ -250,11 +542,17 @@ const handleChatSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
                  autoComplete="off"
                  value={inputMessage}
                  onChange={(e) => setInputMessage(e.target.value)}
-                 disabled={isAiResponding}
+                 disabled={isAiResponding || user === null}
                />
-               <Button type="submit" size="sm" disabled={!inputMessage.trim() || isAiResponding}>
-                 Send
-               </Button>
+               {isAiResponding ? (
+                 <Button type="button" size="sm" variant="outline" onClick={stopChatResponse}>
+                   Stop
+                 </Button>
+               ) : (
+                 <Button type="submit" size="sm" disabled={!inputMessage.trim()}>
+                   Send
+                 </Button>
+               )}
              </form>
            </div>
          </ResizablePanel>
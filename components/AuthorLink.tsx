@@ -0,0 +1,20 @@
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+
+// URL of an author's page
+export function authorHref(name: string): string {
+  return `/author/${encodeURIComponent(name)}`;
+}
+
+// Link to an author's page; children default to the name itself
+export default function AuthorLink({ name, className, children }: {
+  name: string;
+  className?: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <Link href={authorHref(name)} className={cn('hover:underline', className)}>
+      {children ?? name}
+    </Link>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { citationFormats, type CitationFormat } from '@/lib/citations';
+
+// Single papers use their own export route; selections go through /api/papers/export
+function exportUrl(paperIds: string[], format: CitationFormat, download = false): string {
+  const params = new URLSearchParams({ format });
+  if (download) params.set('download', '1');
+  if (paperIds.length === 1) return `/api/papers/${encodeURIComponent(paperIds[0])}/export?${params}`;
+  params.set('ids', paperIds.join(','));
+  return `/api/papers/export?${params}`;
+}
+
+// "Cite" dropdown: copy or download citations for one or more papers
+export default function CitationExport({ paperIds, label = 'Cite' }: { paperIds: string[]; label?: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState<CitationFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const copy = async (format: CitationFormat) => {
+    try {
+      const response = await fetch(exportUrl(paperIds, format));
+      if (!response.ok) {
+        throw new Error(`Failed to export citations: ${response.status}`);
+      }
+      await navigator.clipboard.writeText(await response.text());
+      setCopied(format);
+      setError(null);
+    } catch (err) {
+      console.error('Error copying citations:', err);
+      setError('Could not copy citations.');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" disabled={paperIds.length === 0} onClick={() => setIsOpen(open => !open)}>
+        {label}
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-56 rounded-md border bg-background p-2 shadow-lg">
+          {error && <p className="p-2 text-sm text-red-600">{error}</p>}
+          <ul className="space-y-1">
+            {(Object.keys(citationFormats) as CitationFormat[]).map(format => (
+              <li key={format} className="flex items-center justify-between gap-2 p-1 text-sm">
+                <span className="font-medium">{citationFormats[format].label}</span>
+                <span className="flex gap-2">
+                  <button type="button" className="hover:underline" onClick={() => copy(format)}>
+                    {copied === format ? 'Copied' : 'Copy'}
+                  </button>
+                  <a href={exportUrl(paperIds, format, true)} className="hover:underline">Download</a>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
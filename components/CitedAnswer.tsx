@@ -0,0 +1,45 @@
+'use client';
+
+import { sourceLabel, splitCitations, type ChunkSource } from '@/lib/chunkCitations';
+
+interface CitedAnswerProps {
+  text: string;
+  sources: ChunkSource[]; // Chunks the answer may cite
+  onCite: (source: ChunkSource) => void;
+}
+
+// Chip text: the page (or chunk) cited, prefixed with the paper's number in multi-paper answers
+function chipText(source: ChunkSource): string {
+  const location = source.pageNumber ? `p. ${source.pageNumber}` : `#${source.chunkIndex}`;
+  const paper = sourceLabel(source).match(/^P\d+/)?.[0];
+  return paper ? `${paper} · ${location}` : location;
+}
+
+// Chat answer with its [C12] or [P2.C12] markers rendered as chips that open the cited passage
+export default function CitedAnswer({ text, sources, onCite }: CitedAnswerProps) {
+  const sourcesByLabel = new Map(sources.map(source => [sourceLabel(source), source]));
+
+  return (
+    <p className="whitespace-pre-wrap">
+      {splitCitations(text).map((segment, i) => {
+        if (segment.type === 'text') return <span key={i}>{segment.text}</span>;
+        return segment.labels.map(label => {
+          const source = sourcesByLabel.get(label);
+          // Markers for chunks that weren't in the context can't be verified; leave them out
+          if (!source) return null;
+          return (
+            <button
+              key={`${i}-${label}`}
+              type="button"
+              className="mx-0.5 inline-flex items-center rounded-full border bg-background px-1.5 align-baseline text-xs text-foreground hover:bg-primary hover:text-primary-foreground"
+              title={source.section ? `${source.section}\n${source.text.slice(0, 200)}` : source.text.slice(0, 200)}
+              onClick={() => onCite(source)}
+            >
+              {chipText(source)}
+            </button>
+          );
+        });
+      })}
+    </p>
+  );
+}
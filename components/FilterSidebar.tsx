@@ -0,0 +1,127 @@
+'use client';
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { hasActiveFilters, emptyFilters, type FacetCount, type FacetCounts, type SearchFilters } from '@/lib/searchFilters';
+
+interface FilterSidebarProps {
+  filters: SearchFilters;
+  facets: FacetCounts;
+  onChange: (filters: SearchFilters) => void;
+}
+
+// Add or remove a value from a multi-select filter list
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+// Selected values stay visible even when the current result set has no matches for them
+function withSelected(counts: FacetCount[], selected: string[]): FacetCount[] {
+  const missing = selected.filter(value => !counts.some(c => c.value === value));
+  return [...counts, ...missing.map(value => ({ value, count: 0 }))];
+}
+
+function FacetGroup({ title, counts, selected, onToggle }: {
+  title: string;
+  counts: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  const values = withSelected(counts, selected);
+  if (values.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      {values.map(({ value, count }) => (
+        <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selected.includes(value)}
+            onChange={() => onToggle(value)}
+          />
+          <span className="flex-1 truncate" title={value}>{value}</span>
+          <span className="text-xs text-muted-foreground">{count}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default function FilterSidebar({ filters, facets, onChange }: FilterSidebarProps) {
+  const parseYear = (value: string) => (value ? parseInt(value, 10) : undefined);
+
+  // Year facet values come back as strings; show them newest first
+  const yearCounts = [...facets.year].sort((a, b) => Number(b.value) - Number(a.value));
+
+  return (
+    <aside className="w-full space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Filters</h2>
+        {hasActiveFilters(filters) && (
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onChange(emptyFilters)}>
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      <FacetGroup
+        title="Categories"
+        counts={facets.categories}
+        selected={filters.categories}
+        onToggle={(value) => onChange({ ...filters, categories: toggle(filters.categories, value) })}
+      />
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Year</h3>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="yearFrom" className="sr-only">From year</Label>
+          <Input
+            id="yearFrom"
+            type="number"
+            placeholder="From"
+            className="h-8"
+            value={filters.yearFrom ?? ''}
+            onChange={(e) => onChange({ ...filters, yearFrom: parseYear(e.target.value) })}
+          />
+          <span className="text-muted-foreground">-</span>
+          <Label htmlFor="yearTo" className="sr-only">To year</Label>
+          <Input
+            id="yearTo"
+            type="number"
+            placeholder="To"
+            className="h-8"
+            value={filters.yearTo ?? ''}
+            onChange={(e) => onChange({ ...filters, yearTo: parseYear(e.target.value) })}
+          />
+        </div>
+        {yearCounts.map(({ value, count }) => (
+          <button
+            key={value}
+            type="button"
+            className="flex w-full items-center justify-between text-sm hover:underline"
+            onClick={() => onChange({ ...filters, yearFrom: Number(value), yearTo: Number(value) })}
+          >
+            <span>{value}</span>
+            <span className="text-xs text-muted-foreground">{count}</span>
+          </button>
+        ))}
+      </div>
+
+      <FacetGroup
+        title="Authors"
+        counts={facets.authors}
+        selected={filters.authors}
+        onToggle={(value) => onChange({ ...filters, authors: toggle(filters.authors, value) })}
+      />
+
+      <FacetGroup
+        title="Source"
+        counts={facets.source}
+        selected={filters.sources}
+        onToggle={(value) => onChange({ ...filters, sources: toggle(filters.sources, value) })}
+      />
+    </aside>
+  );
+}
@@ -0,0 +1,22 @@
+import type { HighlightSegment } from '@/lib/highlights';
+
+// Render highlight segments as text nodes, wrapping matches in <mark>.
+// Falls back to the plain text when there is nothing highlighted.
+export default function Highlighted({ segments, fallback }: { segments?: HighlightSegment[]; fallback: string }) {
+  if (!segments || segments.length === 0) return <>{fallback}</>;
+
+  return (
+    <>
+      {segments.map((segment, index) => (
+        segment.match
+          ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700">{segment.text}</mark>
+          : <span key={index}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
+
+// Join segments back into plain text, e.g. to find which author a highlight belongs to
+export function segmentsText(segments: HighlightSegment[]): string {
+  return segments.map(segment => segment.text).join('');
+}
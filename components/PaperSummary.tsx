@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authFetch } from '@/lib/authFetch';
+import { useAuthUser } from '@/hooks/useAuthUser';
+
+interface Summary { // Response body of /api/papers/[paperId]/summary
+  summary: {
+    tldr: string;
+    problem: string;
+    method: string;
+    keyResults: string[];
+    limitations: string[];
+    datasets: string[];
+  };
+  model: string;
+  createdAt: string;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-1">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+function List({ items }: { items: string[] }) {
+  if (items.length === 0) return <p className="text-sm text-muted-foreground">Not stated.</p>;
+  return (
+    <ul className="list-disc space-y-1 pl-5 text-sm">
+      {items.map((item, i) => <li key={i}>{item}</li>)}
+    </ul>
+  );
+}
+
+// Structured summary of a paper for the paper page. Mounted when its tab is first opened;
+// the first signed-in visitor waits for it to be generated, later ones get the cached copy.
+export default function PaperSummary({ paperId }: { paperId: string }) {
+  const user = useAuthUser();
+  const uid = user?.uid;
+  const authResolved = user !== undefined;
+  const [data, setData] = useState<Summary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authResolved) return; // Wait for Firebase, so a signed-in user isn't asked to sign in
+
+    async function fetchSummary() {
+      setError(null);
+      try {
+        const response = await authFetch(`/api/papers/${encodeURIComponent(paperId)}/summary`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `Failed to fetch summary: ${response.status}`);
+        }
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error fetching summary:', err);
+        setError(err instanceof Error ? err.message : 'Could not load the summary.');
+      }
+    }
+
+    fetchSummary();
+  }, [paperId, uid, authResolved]);
+
+  if (error) return <p className="p-2 text-sm text-red-600">{error}</p>;
+  if (!data) return <p className="p-2 text-sm text-muted-foreground animate-pulse">Summarizing the paper...</p>;
+
+  const { summary } = data;
+  return (
+    <div className="space-y-4 p-2">
+      <p className="rounded-md bg-muted p-3 text-sm"><span className="font-semibold">TL;DR:</span> {summary.tldr}</p>
+      <Section title="Problem">
+        <p className="text-sm">{summary.problem || 'Not stated.'}</p>
+      </Section>
+      <Section title="Method">
+        <p className="text-sm">{summary.method || 'Not stated.'}</p>
+      </Section>
+      <Section title="Key results">
+        <List items={summary.keyResults} />
+      </Section>
+      <Section title="Limitations">
+        <List items={summary.limitations} />
+      </Section>
+      <Section title="Datasets">
+        <List items={summary.datasets} />
+      </Section>
+      <p className="text-xs text-muted-foreground">Generated by {data.model} from the paper text; may contain mistakes.</p>
+    </div>
+  );
+}
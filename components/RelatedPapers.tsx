@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+
+interface RelatedPaper {
+  id: string;
+  title?: string;
+  authors?: string[];
+  year?: number;
+  score: number; // Cosine similarity, 1 = identical
+}
+
+// "Related papers" dropdown for the paper page header
+export default function RelatedPapers({ paperId }: { paperId: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [related, setRelated] = useState<RelatedPaper[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load lazily the first time the list is opened
+  useEffect(() => {
+    if (!isOpen || related !== null) return;
+
+    async function fetchRelated() {
+      try {
+        const response = await fetch(`/api/papers/${encodeURIComponent(paperId)}/related`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch related papers: ${response.status}`);
+        }
+        const data = await response.json();
+        setRelated(data.related);
+      } catch (err) {
+        console.error('Error fetching related papers:', err);
+        setError('Could not load related papers.');
+        setRelated([]);
+      }
+    }
+
+    fetchRelated();
+  }, [isOpen, related, paperId]);
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(open => !open)}>
+        Related papers
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 rounded-md border bg-background p-2 shadow-lg">
+          {related === null && <p className="p-2 text-sm text-muted-foreground">Loading...</p>}
+          {error && <p className="p-2 text-sm text-red-600">{error}</p>}
+          {related !== null && !error && related.length === 0 && (
+            <p className="p-2 text-sm text-muted-foreground">No related papers found.</p>
+          )}
+          <ul className="space-y-1">
+            {related?.map(paper => (
+              <li key={paper.id}>
+                <Link href={`/paper/${paper.id}`} className="block rounded p-2 hover:bg-muted">
+                  <span className="block text-sm font-medium line-clamp-2">{paper.title || `Paper ${paper.id}`}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {paper.authors?.join(', ') || 'Unknown Authors'} - {paper.year || 'N/A'} · {Math.round(paper.score * 100)}% similar
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
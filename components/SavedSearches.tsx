@@ -0,0 +1,143 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { authFetch } from '@/lib/authFetch';
+import { hasActiveFilters, type SearchFilters } from '@/lib/searchFilters';
+
+interface SavedSearchItem { // Item of GET /api/saved-searches
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  matchCount: number;
+  unseenPapers: { id: string; title: string; year?: number }[];
+}
+
+interface SavedSearchesProps {
+  query: string; // Current search text, '' for none
+  filters: SearchFilters;
+  onApply: (query: string, filters: SearchFilters) => void;
+}
+
+// Saved searches of the signed-in user, with the papers that matched since they last looked
+export default function SavedSearches({ query, filters, onApply }: SavedSearchesProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearchItem[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSavedSearches = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/saved-searches');
+      if (!response.ok) {
+        throw new Error(`API request failed with status ${response.status}`);
+      }
+      const data = await response.json();
+      setSavedSearches(data.savedSearches);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching saved searches:', err);
+      setError('Could not load saved searches.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, [fetchSavedSearches]);
+
+  const canSave = query.trim() !== '' || hasActiveFilters(filters);
+
+  const saveCurrentSearch = async () => {
+    setIsSaving(true);
+    try {
+      const response = await authFetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: query.trim() || '*', filters }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || `API request failed with status ${response.status}`);
+      }
+      await fetchSavedSearches();
+    } catch (err) {
+      console.error('Error saving search:', err);
+      setError('Could not save this search.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const markSeen = async (id: string) => {
+    await authFetch(`/api/saved-searches/${id}/seen`, { method: 'POST' });
+    await fetchSavedSearches();
+  };
+
+  const remove = async (id: string) => {
+    await authFetch(`/api/saved-searches/${id}`, { method: 'DELETE' });
+    await fetchSavedSearches();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Saved searches</h2>
+        <Button variant="outline" size="sm" onClick={saveCurrentSearch} disabled={!canSave || isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {savedSearches.length === 0 && !error && (
+        <p className="text-xs text-muted-foreground">Save a search to be told about new matching papers.</p>
+      )}
+      <ul className="space-y-1">
+        {savedSearches.map(savedSearch => (
+          <li key={savedSearch.id} className="rounded border p-2 text-sm">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                className="flex-1 truncate text-left hover:underline"
+                title="Run this search"
+                onClick={() => onApply(savedSearch.query === '*' ? '' : savedSearch.query, savedSearch.filters)}
+              >
+                {savedSearch.name}
+              </button>
+              {savedSearch.unseenPapers.length > 0 && (
+                <button
+                  type="button"
+                  className="rounded-full bg-primary px-2 text-xs text-primary-foreground"
+                  title="Show new matches"
+                  onClick={() => setExpandedId(expandedId === savedSearch.id ? null : savedSearch.id)}
+                >
+                  {savedSearch.unseenPapers.length} new
+                </button>
+              )}
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:text-red-600"
+                title="Delete saved search"
+                onClick={() => remove(savedSearch.id)}
+              >
+                &times;
+              </button>
+            </div>
+            {expandedId === savedSearch.id && (
+              <div className="mt-2 space-y-1">
+                {savedSearch.unseenPapers.map(paper => (
+                  <Link key={paper.id} href={`/paper/${paper.id}`} className="block text-xs underline line-clamp-2">
+                    {paper.title} {paper.year ? `(${paper.year})` : ''}
+                  </Link>
+                ))}
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => markSeen(savedSearch.id)}>
+                  Mark all as seen
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from "@/components/ui/input";
+import type { Suggestion } from '@/lib/searchFilters';
+
+interface SearchSuggestInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (suggestion: Suggestion) => void;
+}
+
+const suggestDebounceMs = 200; // Delay before asking for suggestions while typing
+const typeLabels: Record<Suggestion['type'], string> = {
+  title: 'Paper',
+  author: 'Author',
+  category: 'Category',
+};
+
+// Search input with a typeahead dropdown of titles, authors and categories.
+// Arrow keys move through the list, Enter picks, Escape closes.
+export default function SearchSuggestInput({ value, onChange, onSelect }: SearchSuggestInputProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1); // Highlighted suggestion, -1 for none
+  const [isOpen, setIsOpen] = useState(false);
+
+  // --- Fetch suggestions for the current text (debounced) ---
+  useEffect(() => {
+    const prefix = value.trim();
+    if (!prefix) return; // The dropdown is hidden while the input is empty
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/papers/suggest?q=${encodeURIComponent(prefix)}`, { signal: controller.signal });
+        if (!response.ok) return;
+        const data = await response.json();
+        setSuggestions(data.suggestions);
+        setActiveIndex(-1);
+      } catch (err) {
+        if (!controller.signal.aborted) console.error('Error fetching suggestions:', err);
+      }
+    }, suggestDebounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value]);
+
+  const pick = (suggestion: Suggestion) => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onSelect(suggestion);
+  };
+
+  // --- Keyboard navigation ---
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (event.key === 'Enter' && activeIndex >= 0) {
+      event.preventDefault(); // Pick the suggestion instead of submitting the search form
+      pick(suggestions[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const showDropdown = isOpen && value.trim() !== '' && suggestions.length > 0;
+
+  return (
+    <div className="relative">
+      <Input
+        type="search"
+        placeholder="Search papers..."
+        className="w-full rounded-lg bg-background pl-8"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls="search-suggestions"
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+      />
+      {showDropdown && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 z-20 mt-1 max-h-80 overflow-y-auto rounded-md border bg-background py-1 shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.type}-${suggestion.paperId ?? suggestion.value}`}
+              id={`search-suggestion-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm ${index === activeIndex ? 'bg-muted' : ''}`}
+              // mouseDown fires before the input's blur, so the click isn't lost
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <span className="w-16 shrink-0 text-xs text-muted-foreground">{typeLabels[suggestion.type]}</span>
+              <span className="flex-1 truncate">{suggestion.value}</span>
+              {suggestion.count !== undefined && (
+                <span className="text-xs text-muted-foreground">{suggestion.count}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { onAuthStateChanged, type User } from 'firebase/auth';
+import { auth } from '@/lib/firebaseConfig';
+
+// Current Firebase user: undefined while auth state is loading, null when signed out
+export function useAuthUser(): User | null | undefined {
+  const [user, setUser] = useState<User | null | undefined>(undefined);
+
+  useEffect(() => onAuthStateChanged(auth, setUser), []);
+
+  return user;
+}
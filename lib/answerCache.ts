@@ -0,0 +1,159 @@
+import { v5 as uuidv5 } from 'uuid';
+import { embedText, embeddingDimensions } from '@/lib/embedding';
+import { paperIngestionTimes, qdrantClient } from '@/lib/qdrant';
+import { envInt } from '@/lib/utils';
+import type { ChunkSource } from '@/lib/chunkCitations';
+import type { ContextStrategy } from '@/lib/chatContext';
+
+// Cache of chat answers to first questions about a paper, in its own Qdrant collection so
+// near-duplicate questions ("what dataset do they use?" / "Which datasets are used?")
+// can be matched by embedding similarity. Entries are keyed by paper, question, requested
+// strategy and preferred model, and expire after the TTL or when the paper is re-ingested.
+const answerCacheCollectionName = 'chat_answer_cache';
+
+// Namespace for entry ids (uuid v5 of the cache key), so an identical question overwrites its entry
+const answerCacheNamespace = '4828d72a-e99c-4ff6-b34e-05eb65b79c90';
+
+// 0 turns the cache off
+const answerCacheTtlHours = envInt('CHAT_CACHE_TTL_HOURS', 168);
+// Cosine similarity between normalized questions needed to reuse an answer
+const minSimilarity = Number(process.env.CHAT_CACHE_MIN_SIMILARITY) || 0.95;
+
+export interface AnswerCacheKey {
+  paperId: string;
+  question: string;
+  strategy: ContextStrategy; // As requested
+  model: string; // Preferred provider:model
+}
+
+export interface CachedAnswer {
+  question: string; // As first asked
+  answer: string;
+  model: string; // provider:model that answered
+  strategy: ContextStrategy; // How the answer's context was actually built
+  sources: ChunkSource[]; // Chunks the answer cites
+  createdAt: string;
+  similarity: number; // 1 for the same normalized question
+}
+
+export interface AnswerCacheLookup {
+  cached: CachedAnswer | null;
+  // Store a fresh answer to the looked-up question
+  store: (entry: Omit<CachedAnswer, 'question' | 'createdAt' | 'similarity'>) => Promise<void>;
+}
+
+interface AnswerCachePayload extends Omit<CachedAnswer, 'createdAt' | 'similarity'> {
+  paperId: string;
+  requestedStrategy: ContextStrategy;
+  preferredModel: string;
+  ingestedAt: string; // Ingestion the answer's context came from
+  createdAt: number; // Epoch milliseconds, for the TTL range filter
+}
+
+// Case, punctuation and spacing don't change the question
+export function normalizeQuestion(question: string): string {
+  return question.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+let collectionReady: Promise<void> | null = null;
+
+// Create the collection on first use (it isn't part of scripts/ingest.mjs, whose --full rebuild recreates paper_chunks)
+function ensureCollection(): Promise<void> {
+  if (!collectionReady) {
+    collectionReady = (async () => {
+      try {
+        await qdrantClient.getCollection(answerCacheCollectionName);
+        return;
+      } catch (error) {
+        if ((error as { status?: number }).status !== 404) throw error;
+      }
+      await qdrantClient.createCollection(answerCacheCollectionName, {
+        vectors: { size: embeddingDimensions, distance: 'Cosine' },
+      });
+      await qdrantClient.createPayloadIndex(answerCacheCollectionName, {
+        field_name: 'paperId',
+        field_schema: 'keyword',
+        wait: true,
+      });
+      console.log(`Created Qdrant collection: ${answerCacheCollectionName}`);
+    })().catch(error => {
+      collectionReady = null;
+      throw error;
+    });
+  }
+  return collectionReady;
+}
+
+// Look up a cached answer to the question. Returns null when the cache is off, the paper
+// has no chunks, or the cache can't be reached; chat then works as if uncached.
+export async function lookUpAnswer(key: AnswerCacheKey): Promise<AnswerCacheLookup | null> {
+  if (answerCacheTtlHours === 0) return null;
+  const normalizedQuestion = normalizeQuestion(key.question);
+  try {
+    const [, ingested, vector] = await Promise.all([
+      ensureCollection(),
+      paperIngestionTimes([key.paperId]),
+      embedText(normalizedQuestion),
+    ]);
+    const ingestedAt = ingested.get(key.paperId);
+    if (ingestedAt === undefined) return null;
+
+    const hits = await qdrantClient.search(answerCacheCollectionName, {
+      vector,
+      filter: {
+        must: [
+          { key: 'paperId', match: { value: key.paperId } },
+          { key: 'requestedStrategy', match: { value: key.strategy } },
+          { key: 'preferredModel', match: { value: key.model } },
+          { key: 'ingestedAt', match: { value: ingestedAt } },
+          { key: 'createdAt', range: { gte: Date.now() - answerCacheTtlHours * 60 * 60 * 1000 } },
+        ],
+      },
+      limit: 1,
+      score_threshold: minSimilarity,
+      with_payload: true,
+    });
+
+    const hit = hits[0];
+    const payload = hit?.payload as AnswerCachePayload | undefined;
+    const cached: CachedAnswer | null = hit && payload
+      ? {
+          question: payload.question,
+          answer: payload.answer,
+          model: payload.model,
+          strategy: payload.strategy,
+          sources: payload.sources,
+          createdAt: new Date(payload.createdAt).toISOString(),
+          similarity: hit.score,
+        }
+      : null;
+
+    const store: AnswerCacheLookup['store'] = async entry => {
+      const entryPayload: AnswerCachePayload = {
+        ...entry,
+        question: key.question,
+        paperId: key.paperId,
+        requestedStrategy: key.strategy,
+        preferredModel: key.model,
+        ingestedAt,
+        createdAt: Date.now(),
+      };
+      try {
+        await qdrantClient.upsert(answerCacheCollectionName, {
+          points: [{
+            id: uuidv5([key.paperId, key.strategy, key.model, normalizedQuestion].join('\n'), answerCacheNamespace),
+            vector,
+            payload: { ...entryPayload },
+          }],
+        });
+      } catch (error) {
+        console.error('Error storing answer in cache:', error);
+      }
+    };
+
+    return { cached, store };
+  } catch (error) {
+    console.error('Error looking up answer cache:', error);
+    return null;
+  }
+}
@@ -0,0 +1,10 @@
+import { auth } from '@/lib/firebaseConfig';
+
+// fetch() that sends the signed-in user's Firebase ID token, for routes that
+// verify it with getAuthenticatedUser(). Sends no token when signed out.
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = await auth.currentUser?.getIdToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,57 @@
+import { authFetch } from '@/lib/authFetch';
+import { readServerSentEvents } from '@/lib/sse';
+import type { ChunkSource } from '@/lib/chunkCitations';
+
+// Client side of POST /api/chat/ask in streaming mode, shared by the paper page and the
+// multi-paper chat page.
+
+// Payload of the `context` event, sent before the first token
+export interface ChatStreamContext {
+  strategy: 'top_k' | 'full_document';
+  sources: ChunkSource[];
+  conversationId: string | null;
+  papers?: { id: string; title: string; number: number }[]; // Multi-paper questions only
+  cached?: { question: string; createdAt: string }; // Set when the answer comes from the answer cache
+}
+
+export interface ChatStreamHandlers {
+  onContext: (context: ChatStreamContext) => void;
+  onToken: (text: string) => void;
+}
+
+// Refused request: 401 when signed out, 429 over a rate limit or quota. The message is
+// meant for the user and says when to try again.
+export class ChatRequestError extends Error {
+  constructor(message: string, public readonly status: number, public readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+// Ask a question and stream the answer through the handlers. Resolves when the answer is
+// complete; throws on a failed request or an `error` event, and when the signal aborts.
+// Requires a signed-in user.
+export async function streamChatAnswer(body: Record<string, unknown>, signal: AbortSignal, handlers: ChatStreamHandlers): Promise<void> {
+  const response = await authFetch('/api/chat/ask', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (response.status === 401 || response.status === 429) {
+    const errorData = await response.json();
+    throw new ChatRequestError(errorData.message, response.status, errorData.retryAfterSeconds);
+  }
+  if (!response.ok || !response.body) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || `API request failed with status ${response.status}`);
+  }
+
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    const payload = JSON.parse(data);
+    if (event === 'context') handlers.onContext(payload);
+    else if (event === 'token') handlers.onToken(payload.text);
+    else if (event === 'error') throw new Error(payload.message);
+  }
+}
@@ -0,0 +1,203 @@
+import { embedText } from '@/lib/embedding';
+import { qdrantClient, qdrantCollectionName, scrollPaperChunks, type ChunkPoint } from '@/lib/qdrant';
+import { chunkLabel, type ChunkSource } from '@/lib/chunkCitations';
+import { envInt } from '@/lib/utils';
+
+// top_k: the chunks most similar to the question, plus their neighbours.
+// full_document: every chunk in order; only for papers that fit in the budget.
+export const contextStrategies = ['top_k', 'full_document'] as const;
+export type ContextStrategy = typeof contextStrategies[number];
+
+export interface ChatContextOptions {
+  tokenBudget: number; // Upper bound on the estimated tokens of context text
+  topK: number; // Chunks retrieved by similarity before expansion
+  neighbourChunks: number; // Chunks added on each side of a retrieved chunk
+}
+
+export interface ChatContext {
+  strategy: ContextStrategy; // Strategy actually used; full_document falls back to top_k when the paper is too long
+  text: string;
+  chunkIndexes: number[]; // Chunks included, in document order; empty for multi-paper contexts
+  sources: ChunkSource[]; // The same chunks with their pages and text, for citations
+  estimatedTokens: number;
+}
+
+// A paper in a multi-paper context, introduced to the model by a numbered header
+export interface ContextPaper {
+  id: string;
+  title: string;
+  authors: string[];
+  year: number;
+}
+
+export const defaultContextOptions: ChatContextOptions = {
+  tokenBudget: envInt('CHAT_CONTEXT_TOKEN_BUDGET', 6000),
+  topK: envInt('CHAT_TOP_K', 8),
+  neighbourChunks: envInt('CHAT_NEIGHBOUR_CHUNKS', 1),
+};
+
+// Multi-paper questions retrieve more chunks, shared across all the papers
+const multiPaperTopK = envInt('CHAT_MULTI_PAPER_TOP_K', 16);
+
+// Rough token count (about four characters per token for English text); avoids loading a tokenizer
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Chunks ingested before character offsets were stored overlap by this many characters
+const legacyChunkOverlap = 50;
+
+function byChunkIndex(a: ChunkPoint, b: ChunkPoint): number {
+  return a.payload.chunkIndex - b.payload.chunkIndex;
+}
+
+// Characters at the start of a chunk that repeat the end of the chunk before it
+function overlapWith(previous: ChunkPoint, chunk: ChunkPoint): number {
+  const { charStart } = chunk.payload;
+  const { charEnd } = previous.payload;
+  if (charStart === undefined || charEnd === undefined) return legacyChunkOverlap;
+  return Math.max(0, charEnd - charStart);
+}
+
+// Join one paper's chunks in document order, each opened by its citation label. The text
+// consecutive chunks share is dropped; gaps between non-consecutive chunks are marked so
+// the model knows text is missing. A new section starts on its own line with its heading.
+function assembleChunks(sorted: ChunkPoint[], paperNumber?: number): string {
+  return sorted.map((chunk, i) => {
+    const previous = sorted[i - 1];
+    const label = `[${chunkLabel(chunk.payload.chunkIndex, paperNumber)}]`;
+    const { section, chunkText } = chunk.payload;
+    // Chunks at the top of a section already start with its heading
+    const heading = section && section !== previous?.payload.section && !chunkText.startsWith(section) ? `(${section}) ` : '';
+    if (!previous) return `${label} ${heading}${chunkText}`;
+    if (chunk.payload.chunkIndex === previous.payload.chunkIndex + 1) {
+      const text = chunkText.slice(overlapWith(previous, chunk));
+      return section !== previous.payload.section ? `\n${label} ${heading}${text}` : ` ${label} ${text}`;
+    }
+    return `\n[...]\n${label} ${heading}${chunkText}`;
+  }).join('');
+}
+
+function toSource({ payload }: ChunkPoint, paperNumber?: number): ChunkSource {
+  return {
+    chunkIndex: payload.chunkIndex,
+    pageNumber: payload.pageNumber,
+    pageEnd: payload.pageEnd,
+    section: payload.section,
+    text: payload.chunkText,
+    ...(paperNumber && { paperId: payload.paperId }),
+    label: chunkLabel(payload.chunkIndex, paperNumber),
+  };
+}
+
+function toContext(strategy: ContextStrategy, chunks: ChunkPoint[]): ChatContext {
+  const sorted = [...chunks].sort(byChunkIndex);
+  const text = assembleChunks(sorted);
+  return {
+    strategy,
+    text,
+    chunkIndexes: sorted.map(chunk => chunk.payload.chunkIndex),
+    sources: sorted.map(chunk => toSource(chunk)),
+    estimatedTokens: estimateTokens(text),
+  };
+}
+
+// Fetch specific chunks of a paper by index
+async function getChunks(paperId: string, chunkIndexes: number[]): Promise<ChunkPoint[]> {
+  if (chunkIndexes.length === 0) return [];
+  const { points } = await qdrantClient.scroll(qdrantCollectionName, {
+    filter: {
+      must: [
+        { key: 'paperId', match: { value: paperId } },
+        { key: 'chunkIndex', match: { any: chunkIndexes } },
+      ],
+    },
+    with_payload: true,
+    with_vector: false,
+    limit: chunkIndexes.length,
+  });
+  return points as ChunkPoint[];
+}
+
+// Retrieve the top-k chunks for the question from any of the papers, then widen each with
+// its neighbours. Chunks are added in order of relevance (each hit, then its nearest
+// neighbours) until the budget is spent, so the most relevant passages are never crowded out.
+async function retrieveTopK(paperIds: string[], question: string, topK: number, options: ChatContextOptions): Promise<ChunkPoint[]> {
+  const vector = await embedText(question);
+  const hits = await qdrantClient.search(qdrantCollectionName, {
+    vector,
+    filter: { must: [{ key: 'paperId', match: { any: paperIds } }] },
+    limit: topK,
+    with_payload: true,
+  });
+
+  // Candidate order: hit 1, its neighbours (closest first), hit 2, its neighbours...
+  const candidates: { paperId: string; index: number }[] = [];
+  for (const hit of hits) {
+    const paperId = String(hit.payload?.paperId ?? '');
+    const index = Number(hit.payload?.chunkIndex ?? 0);
+    candidates.push({ paperId, index });
+    for (let distance = 1; distance <= options.neighbourChunks; distance++) {
+      candidates.push({ paperId, index: index - distance }, { paperId, index: index + distance });
+    }
+  }
+  const key = (paperId: string, index: number) => `${paperId}:${index}`;
+  const wanted = [...new Map(candidates.filter(c => c.index >= 0).map(c => [key(c.paperId, c.index), c])).values()];
+
+  const fetched = await Promise.all([...new Set(wanted.map(c => c.paperId))].map(paperId =>
+    getChunks(paperId, wanted.filter(c => c.paperId === paperId).map(c => c.index))));
+  const chunksByKey = new Map(fetched.flat().map(chunk => [key(chunk.payload.paperId, chunk.payload.chunkIndex), chunk]));
+
+  const selected: ChunkPoint[] = [];
+  let tokens = 0;
+  for (const { paperId, index } of wanted) {
+    const chunk = chunksByKey.get(key(paperId, index));
+    if (!chunk) continue; // Past the last chunk of the paper
+    const chunkTokens = estimateTokens(chunk.payload.chunkText);
+    if (tokens + chunkTokens > options.tokenBudget) continue;
+    selected.push(chunk);
+    tokens += chunkTokens;
+  }
+  return selected;
+}
+
+// Build the context for a question about one paper
+export async function buildChatContext(
+  paperId: string,
+  question: string,
+  strategy: ContextStrategy = 'top_k',
+  options: ChatContextOptions = defaultContextOptions,
+): Promise<ChatContext> {
+  if (strategy === 'full_document') {
+    const chunks = await scrollPaperChunks(paperId);
+    const fullDocument = toContext('full_document', chunks);
+    if (fullDocument.estimatedTokens <= options.tokenBudget) return fullDocument;
+    console.log(`Paper ${paperId} is ~${fullDocument.estimatedTokens} tokens, over the ${options.tokenBudget} token budget; using top_k retrieval instead.`);
+  }
+  return toContext('top_k', await retrieveTopK([paperId], question, options.topK, options));
+}
+
+// Build the context for a question across several papers: the most relevant chunks of all
+// of them, grouped under a header per paper ([P1] "Title" (Authors, Year)) and labelled
+// [P1.C12] so the answer can say which paper each point comes from.
+export async function buildMultiPaperContext(
+  papers: ContextPaper[],
+  question: string,
+  options: ChatContextOptions = defaultContextOptions,
+): Promise<ChatContext> {
+  const chunks = await retrieveTopK(papers.map(paper => paper.id), question, multiPaperTopK, options);
+
+  const sources: ChunkSource[] = [];
+  const sections = papers.map((paper, i) => {
+    const paperNumber = i + 1;
+    const paperChunks = chunks.filter(chunk => chunk.payload.paperId === paper.id).sort(byChunkIndex);
+    sources.push(...paperChunks.map(chunk => toSource(chunk, paperNumber)));
+    const byline = [paper.authors.join(', '), paper.year].filter(Boolean).join(', ');
+    const header = `[P${paperNumber}] "${paper.title}"${byline ? ` (${byline})` : ''}`;
+    // Papers with nothing relevant are still listed so the model can say so
+    return `${header}\n${paperChunks.length > 0 ? assembleChunks(paperChunks, paperNumber) : '(No relevant passages.)'}`;
+  });
+
+  const text = sections.join('\n\n');
+  return { strategy: 'top_k', text, chunkIndexes: [], sources, estimatedTokens: estimateTokens(text) };
+}
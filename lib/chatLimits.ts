@@ -0,0 +1,106 @@
+import { adminDb } from '@/lib/firebaseAdmin';
+import { getUsageStore } from '@/lib/usage';
+import { envInt } from '@/lib/utils';
+
+// Chat limits per user: a sliding-window rate limit on questions and a daily quota of
+// estimated tokens (prompt and answer), both set by the `role` in users/{uid}. 0 means unlimited.
+export interface ChatLimits {
+  requestsPerWindow: number;
+  dailyTokens: number;
+}
+
+const rateWindowSeconds = envInt('CHAT_RATE_WINDOW_SECONDS', 60);
+
+// Users without a role, or with one not listed here, get the 'user' limits
+const limitsByRole: Record<string, ChatLimits> = {
+  user: {
+    requestsPerWindow: envInt('CHAT_RATE_LIMIT_USER', 10),
+    dailyTokens: envInt('CHAT_DAILY_TOKENS_USER', 200000),
+  },
+  pro: {
+    requestsPerWindow: envInt('CHAT_RATE_LIMIT_PRO', 30),
+    dailyTokens: envInt('CHAT_DAILY_TOKENS_PRO', 2000000),
+  },
+  admin: {
+    requestsPerWindow: envInt('CHAT_RATE_LIMIT_ADMIN', 0),
+    dailyTokens: envInt('CHAT_DAILY_TOKENS_ADMIN', 0),
+  },
+};
+
+export type ChatLimitCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate_limit' | 'daily_quota'; retryAfterSeconds: number; message: string };
+
+function requestsKey(uid: string): string {
+  return `chat-requests:${uid}`;
+}
+
+function tokensKey(uid: string): string {
+  return `chat-tokens:${uid}`;
+}
+
+// Quotas reset at midnight UTC
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+async function getChatLimits(uid: string): Promise<ChatLimits> {
+  const doc = await adminDb.collection('users').doc(uid).get();
+  const role = doc.data()?.role;
+  return limitsByRole[role] ?? limitsByRole.user;
+}
+
+// Check the user's daily quota, then count the question against their rate limit. The
+// quota is checked first so questions refused for it don't use up the rate limit.
+export async function checkChatLimits(uid: string): Promise<ChatLimitCheck> {
+  const limits = await getChatLimits(uid);
+  const store = getUsageStore();
+  const now = Date.now();
+
+  if (limits.dailyTokens > 0) {
+    const used = await store.getDailyCounter(tokensKey(uid), utcDay(now));
+    if (used >= limits.dailyTokens) {
+      const retryAfterSeconds = secondsUntilUtcMidnight(now);
+      return {
+        allowed: false,
+        reason: 'daily_quota',
+        retryAfterSeconds,
+        message: `You've used your daily chat quota of ${limits.dailyTokens.toLocaleString('en-US')} tokens. It resets in ${formatWait(retryAfterSeconds)}.`,
+      };
+    }
+  }
+
+  if (limits.requestsPerWindow > 0) {
+    const result = await store.hit(requestsKey(uid), limits.requestsPerWindow, rateWindowSeconds * 1000, now);
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+      return {
+        allowed: false,
+        reason: 'rate_limit',
+        retryAfterSeconds,
+        message: `You can ask ${limits.requestsPerWindow} questions every ${formatWait(rateWindowSeconds)}. Try again in ${formatWait(retryAfterSeconds)}.`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+// Count an answer's estimated tokens against the user's daily quota
+export async function recordChatTokens(uid: string, tokens: number): Promise<void> {
+  await getUsageStore().addToDailyCounter(tokensKey(uid), utcDay(Date.now()), tokens);
+}
@@ -0,0 +1,50 @@
+// Chunk citations in chat answers. Context passages are labelled in the prompt — [C12] for
+// chunk 12 of the paper, or [P2.C12] for chunk 12 of the second paper when asking across
+// several — and the model cites them the same way; the chat UI turns them into chips.
+
+// A chunk of a paper that was given to the model as context
+export interface ChunkSource {
+  chunkIndex: number;
+  pageNumber?: number; // Page the chunk starts on; missing for papers ingested before page tracking
+  pageEnd?: number;
+  section?: string; // Heading of the section the chunk is in
+  text: string;
+  paperId?: string; // Set when the context spans several papers
+  label?: string; // C12 or P2.C12; answers stored before multi-paper chat have none
+}
+
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; labels: string[] };
+
+const labelPattern = /(?:P\d+\.)?C\d+/g;
+// [C12], [P2.C12] or a list such as [C3, C4]
+const citationPattern = /\[((?:P\d+\.)?C\d+(?:\s*[,;]\s*(?:P\d+\.)?C\d+)*)\]/g;
+
+export function sourceLabel(source: Pick<ChunkSource, 'chunkIndex' | 'label'>): string {
+  return source.label ?? `C${source.chunkIndex}`;
+}
+
+// Label for chunk `chunkIndex`; paperNumber is the paper's 1-based position in a multi-paper context
+export function chunkLabel(chunkIndex: number, paperNumber?: number): string {
+  return paperNumber ? `P${paperNumber}.C${chunkIndex}` : `C${chunkIndex}`;
+}
+
+// Split an answer into plain text and citation markers, in order
+export function splitCitations(text: string): AnswerSegment[] {
+  const segments: AnswerSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(citationPattern)) {
+    if (match.index > last) segments.push({ type: 'text', text: text.slice(last, match.index) });
+    segments.push({ type: 'citation', labels: match[1].match(labelPattern) ?? [] });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) });
+  return segments;
+}
+
+// Sources the answer actually cites, in context order
+export function citedSources(text: string, sources: ChunkSource[]): ChunkSource[] {
+  const cited = new Set([...text.matchAll(citationPattern)].flatMap(match => match[1].match(labelPattern) ?? []));
+  return sources.filter(source => cited.has(sourceLabel(source)));
+}
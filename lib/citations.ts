@@ -0,0 +1,191 @@
+import type { PaperDocument } from '@/lib/search';
+
+// Citation export formats: BibTeX for LaTeX, RIS and CSL-JSON for reference managers like Zotero
+export const citationFormats = {
+  bibtex: { label: 'BibTeX', contentType: 'application/x-bibtex', extension: 'bib' },
+  ris: { label: 'RIS', contentType: 'application/x-research-info-systems', extension: 'ris' },
+  'csl-json': { label: 'CSL-JSON', contentType: 'application/vnd.citationstyles.csl+json', extension: 'json' },
+} as const;
+
+export type CitationFormat = keyof typeof citationFormats;
+
+export function parseCitationFormat(value: string | null): CitationFormat | null {
+  if (!value) return 'bibtex';
+  return Object.hasOwn(citationFormats, value) ? value as CitationFormat : null;
+}
+
+// Words skipped when picking the title word of a cite key
+const stopWords = new Set(['a', 'an', 'the', 'on', 'of', 'for', 'in', 'to', 'and', 'with', 'towards', 'via', 'is', 'are']);
+
+interface PersonName {
+  family: string;
+  given?: string;
+}
+
+// "Ashish Vaswani" and "Vaswani, Ashish" both become { family: 'Vaswani', given: 'Ashish' }
+function splitName(name: string): PersonName {
+  const trimmed = name.trim();
+  if (trimmed.includes(',')) {
+    const [family, ...given] = trimmed.split(',');
+    return { family: family.trim(), given: given.join(',').trim() || undefined };
+  }
+  const parts = trimmed.split(/\s+/);
+  if (parts.length === 1) return { family: parts[0] };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') };
+}
+
+// Lowercase ASCII letters and digits only: "Łukasz" -> "lukasz"
+function keyPart(text: string): string {
+  return text
+    .replace(/[łŁ]/g, 'l')
+    .replace(/[øØ]/g, 'o')
+    .replace(/ß/g, 'ss')
+    .normalize('NFKD')
+    .replace(/[^A-Za-z0-9]/g, '')
+    .toLowerCase();
+}
+
+// Short hash of a paper's id (32-bit FNV-1a in base 36); this module is also bundled for
+// the browser, so it can't use Node's crypto
+function idSuffix(id: string): string {
+  let hash = 0x811c9dc5;
+  for (const char of id) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36).padStart(4, '0').slice(-4);
+}
+
+// Cite key: first author's family name, year, first significant title word and a suffix
+// from the paper's id, e.g. "vaswani2017attention-2r2w". A paper's key depends only on
+// the paper, so \cite references hold across exports, and papers with the same author,
+// year and title word still get different keys.
+export function citeKey(paper: PaperDocument): string {
+  const author = paper.authors.length > 0 ? keyPart(splitName(paper.authors[0]).family) : '';
+  const titleWord = paper.title.split(/\s+/).map(keyPart).find(word => word && !stopWords.has(word)) || '';
+  return `${author || 'anon'}${paper.year || ''}${titleWord}-${idSuffix(paper.id)}`;
+}
+
+// pdfUrl is stored relative to the site (/pdfs/x.pdf) for uploaded papers
+function absoluteUrl(url: string, baseUrl: string): string {
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
+
+// Papers imported before arxivId was stored are keyed by their arXiv id
+function arxivId(paper: PaperDocument): string {
+  return paper.arxivId ?? paper.id;
+}
+
+// Collapse line breaks and runs of spaces from PDF-extracted metadata
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// --- BibTeX ---
+
+const latexEscapes: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '$': '\\$',
+  '&': '\\&',
+  '%': '\\%',
+  '#': '\\#',
+  '_': '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+function escapeLatex(text: string): string {
+  return singleLine(text).replace(/[\\{}$&%#_~^]/g, char => latexEscapes[char]);
+}
+
+// BibTeX splits the author list on every " and ", so names containing the word are braced:
+// "{Research and Development Group}"
+function bibTeXAuthor(name: string): string {
+  const escaped = escapeLatex(name);
+  return /\band\b/i.test(escaped) ? `{${escaped}}` : escaped;
+}
+
+function toBibTeX(paper: PaperDocument, key: string, baseUrl: string): string {
+  const url = absoluteUrl(paper.pdfUrl, baseUrl);
+  const fields: [string, string][] = [
+    // Double braces keep BibTeX styles from lowercasing acronyms in the title
+    ['title', `{${escapeLatex(paper.title)}}`],
+    ['author', paper.authors.map(bibTeXAuthor).join(' and ')],
+    ['year', paper.year ? String(paper.year) : ''],
+    ['keywords', paper.categories.map(escapeLatex).join(', ')],
+    // \url{} takes the URL verbatim, so it is not escaped
+    ['howpublished', `\\url{${url}}`],
+    ['url', url],
+  ];
+  if (paper.source === 'arxiv') {
+    fields.push(['eprint', escapeLatex(arxivId(paper))], ['archivePrefix', 'arXiv']);
+    if (paper.categories[0]) fields.push(['primaryClass', escapeLatex(paper.categories[0])]);
+  }
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(',\n');
+  return `@misc{${key},\n${body}\n}`;
+}
+
+// --- RIS ---
+
+function toRIS(paper: PaperDocument, key: string, baseUrl: string): string {
+  const lines: [string, string][] = [
+    ['TY', 'GEN'],
+    ['ID', key],
+    ['TI', paper.title],
+    ...paper.authors.map((author): [string, string] => {
+      const { family, given } = splitName(author);
+      return ['AU', given ? `${family}, ${given}` : family];
+    }),
+    ['PY', paper.year ? String(paper.year) : ''],
+    ['AB', paper.abstract],
+    ...paper.categories.map((category): [string, string] => ['KW', category]),
+    ['UR', absoluteUrl(paper.pdfUrl, baseUrl)],
+  ];
+  if (paper.source === 'arxiv') lines.push(['M1', `arXiv:${arxivId(paper)}`]);
+  // RIS has no escaping; every value must fit on its own line
+  return [
+    ...lines.filter(([, value]) => value).map(([tag, value]) => `${tag}  - ${singleLine(value)}`),
+    'ER  - ',
+  ].join('\r\n');
+}
+
+// --- CSL-JSON ---
+
+function toCSL(paper: PaperDocument, key: string, baseUrl: string): Record<string, unknown> {
+  return {
+    id: key,
+    'citation-key': key,
+    type: 'article', // CSL's type for preprints and other unpublished articles
+    title: singleLine(paper.title),
+    author: paper.authors.map(author => {
+      const { family, given } = splitName(author);
+      return given ? { family, given } : { literal: family };
+    }),
+    ...(paper.year ? { issued: { 'date-parts': [[paper.year]] } } : {}),
+    ...(paper.abstract ? { abstract: singleLine(paper.abstract) } : {}),
+    ...(paper.categories.length > 0 ? { keyword: paper.categories.join(', ') } : {}),
+    URL: absoluteUrl(paper.pdfUrl, baseUrl),
+    ...(paper.source === 'arxiv' ? { publisher: 'arXiv', number: arxivId(paper) } : {}),
+  };
+}
+
+// Render papers in the given format. baseUrl resolves site-relative PDF links.
+export function formatCitations(papers: PaperDocument[], format: CitationFormat, baseUrl: string): string {
+  const keys = papers.map(citeKey);
+  if (format === 'csl-json') {
+    return JSON.stringify(papers.map((paper, i) => toCSL(paper, keys[i], baseUrl)), null, 2);
+  }
+  if (format === 'ris') {
+    return papers.map((paper, i) => toRIS(paper, keys[i], baseUrl)).join('\r\n\r\n') + '\r\n';
+  }
+  return papers.map((paper, i) => toBibTeX(paper, keys[i], baseUrl)).join('\n\n') + '\n';
+}
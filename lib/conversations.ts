@@ -0,0 +1,155 @@
+import { adminDb } from '@/lib/firebaseAdmin';
+import { estimateTokens, type ContextStrategy } from '@/lib/chatContext';
+import { envInt } from '@/lib/utils';
+import type { ChunkSource } from '@/lib/chunkCitations';
+
+// Passage the user selected in the PDF, sent with a question about it
+export interface ChatFocus {
+  text: string;
+  pageNumber?: number;
+}
+
+// Chat conversations live in a subcollection of the user's record: users/{uid}/conversations/{id}
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  focus?: ChatFocus; // User turns: the selected passage the question is about
+  strategy?: ContextStrategy; // Assistant turns: how the answer's context was built
+  stopped?: boolean; // Assistant turns: the user stopped the answer while it was streaming
+  sources?: ChunkSource[]; // Assistant turns: the chunks the answer cites
+  cached?: boolean; // Assistant turns: reused from the answer cache
+}
+
+export interface Conversation {
+  id: string;
+  paperId: string;
+  title: string; // First question, shortened
+  createdAt: string;
+  updatedAt: string;
+  turns: ConversationTurn[];
+}
+
+export type ConversationSummary = Omit<Conversation, 'turns'> & { turnCount: number };
+
+const maxTitleLength = 80;
+const maxFocusLength = 4000; // Characters of a selected passage kept with a question
+
+// Estimated tokens of prior turns sent with a question; the oldest turns are dropped first
+export const historyTokenBudget = envInt('CHAT_HISTORY_TOKEN_BUDGET', 2000);
+
+function conversationsOf(uid: string) {
+  return adminDb.collection('users').doc(uid).collection('conversations');
+}
+
+function fromFirestore(id: string, data: FirebaseFirestore.DocumentData): Conversation {
+  return {
+    id,
+    paperId: data.paperId,
+    title: data.title,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+    turns: data.turns || [],
+  };
+}
+
+// Firestore rejects undefined values, so drop unset optional fields
+function withoutUndefined<T extends object>(value: T): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined));
+}
+
+function toFirestoreTurn(turn: ConversationTurn): Record<string, unknown> {
+  return withoutUndefined({ ...turn, focus: turn.focus && withoutUndefined(turn.focus), sources: turn.sources?.map(withoutUndefined) });
+}
+
+// Conversations about one paper, most recently active first. Conversations are created
+// with the first question, so ones whose first answer failed are left out.
+export async function listConversations(uid: string, paperId: string): Promise<ConversationSummary[]> {
+  const snapshot = await conversationsOf(uid).where('paperId', '==', paperId).get();
+  return snapshot.docs
+    .map(doc => {
+      const { turns, ...conversation } = fromFirestore(doc.id, doc.data());
+      return { ...conversation, turnCount: turns.length };
+    })
+    .filter(conversation => conversation.turnCount > 0)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getConversation(uid: string, id: string): Promise<Conversation | null> {
+  const doc = await conversationsOf(uid).doc(id).get();
+  return doc.exists ? fromFirestore(doc.id, doc.data()!) : null;
+}
+
+export async function createConversation(uid: string, paperId: string, firstQuestion: string): Promise<Conversation> {
+  const now = new Date().toISOString();
+  const title = firstQuestion.length > maxTitleLength ? `${firstQuestion.slice(0, maxTitleLength - 1)}…` : firstQuestion;
+  const ref = await conversationsOf(uid).add({ paperId, title, createdAt: now, updatedAt: now, turns: [] });
+  return fromFirestore(ref.id, (await ref.get()).data()!);
+}
+
+// Append a question and its answer. Turns are kept in one array on the conversation
+// document, read back whole every time a conversation is opened.
+export async function appendTurns(uid: string, id: string, turns: ConversationTurn[]): Promise<void> {
+  const ref = conversationsOf(uid).doc(id);
+  await adminDb.runTransaction(async transaction => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists) return;
+    const existing = (doc.data()!.turns || []) as ConversationTurn[];
+    transaction.update(ref, {
+      turns: [...existing, ...turns].map(toFirestoreTurn),
+      updatedAt: new Date().toISOString(),
+    });
+  });
+}
+
+export async function deleteConversation(uid: string, id: string): Promise<boolean> {
+  const ref = conversationsOf(uid).doc(id);
+  if (!(await ref.get()).exists) return false;
+  await ref.delete();
+  return true;
+}
+
+// Most recent turns that fit in the budget, in order. A turn that doesn't fit ends the
+// history rather than being skipped, so the model never sees a gap in the conversation.
+export function trimHistory(turns: ConversationTurn[], tokenBudget = historyTokenBudget): ConversationTurn[] {
+  const kept: ConversationTurn[] = [];
+  let tokens = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    tokens += estimateTokens(turns[i].content) + estimateTokens(turns[i].focus?.text ?? '');
+    if (tokens > tokenBudget) break;
+    kept.unshift(turns[i]);
+  }
+  // Start on a question so the history doesn't open with an orphaned answer
+  while (kept.length > 0 && kept[0].role !== 'user') kept.shift();
+  return kept;
+}
+
+// Validate prior turns sent by the client, for questions whose conversation isn't stored
+export function parseHistory(value: unknown): ConversationTurn[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(turn => {
+    if (!turn || typeof turn !== 'object') return [];
+    const { role, content } = turn as Record<string, unknown>;
+    if ((role !== 'user' && role !== 'assistant') || typeof content !== 'string' || !content.trim()) return [];
+    return [{ role, content, createdAt: '' }];
+  });
+}
+
+// Validate the selected passage sent with a question; long selections are cut short
+export function parseFocus(value: unknown): ChatFocus | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { text, pageNumber } = value as Record<string, unknown>;
+  if (typeof text !== 'string' || !text.trim()) return undefined;
+  return {
+    text: text.trim().slice(0, maxFocusLength),
+    ...(typeof pageNumber === 'number' && Number.isInteger(pageNumber) && pageNumber > 0 && { pageNumber }),
+  };
+}
+
+// Content of a turn as sent to the model; questions about a selection carry the passage,
+// so follow-ups can refer back to it
+export function turnContent(turn: Pick<ConversationTurn, 'content' | 'focus'>): string {
+  if (!turn.focus) return turn.content;
+  const page = turn.focus.pageNumber ? ` (page ${turn.focus.pageNumber})` : '';
+  return `${turn.content}\n\nSelected passage${page}: "${turn.focus.text}"`;
+}
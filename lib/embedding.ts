@@ -0,0 +1,45 @@
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+
+// Must match the model used by lib/ingest to embed paper_chunks
+export const embeddingModelName = 'Xenova/all-MiniLM-L6-v2';
+export const embeddingDimensions = 384;
+
+type ProgressCallback = (progress: unknown) => void;
+
+// --- Load Embedding Model (Singleton) ---
+export class EmbeddingPipelineSingleton {
+  static task = 'feature-extraction' as const;
+  static model = embeddingModelName;
+  static instancePromise: Promise<FeatureExtractionPipeline> | null = null;
+
+  static async getInstance(progress_callback: ProgressCallback | null = null) {
+    if (!this.instancePromise) {
+      console.log('Loading embedding model...');
+
+      // Imported lazily so routes that only sometimes embed (e.g. keyword search)
+      // don't load the transformers runtime on every cold start
+      this.instancePromise = import('@xenova/transformers').then(({ pipeline }) => pipeline(
+          this.task,
+          this.model,
+          { ...(progress_callback !== null && { progress_callback }) }
+      ));
+
+      try {
+        await this.instancePromise;
+        console.log('Embedding model loaded.');
+      } catch (error) {
+         console.error("Failed to load embedding model:", error);
+         this.instancePromise = null;
+         throw error;
+      }
+    }
+    return this.instancePromise;
+  }
+}
+
+// Embed a single piece of text with the same pooling/normalization used at ingest time
+export async function embedText(text: string): Promise<number[]> {
+  const embedder = await EmbeddingPipelineSingleton.getInstance();
+  const tensor = await embedder(text, { pooling: 'mean', normalize: true });
+  return Array.from(tensor.data as Float32Array);
+}
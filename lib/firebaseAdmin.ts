@@ -0,0 +1,24 @@
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+
+// Initialize Firebase Admin SDK (server-side only)
+// Ensure your environment variables are set in .env.local
+const serviceAccount = {
+  projectId: process.env.FIREBASE_PROJECT_ID,
+  clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+  // Replace the escaped newlines in the private key
+  privateKey: (process.env.FIREBASE_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+};
+
+// Check if the app is already initialized to prevent duplicates on hot reloads
+const app = !getApps().length
+  ? initializeApp({ credential: cert(serviceAccount) })
+  : getApps()[0];
+
+const adminDb = getFirestore(app); // Firestore instance from Admin SDK
+const adminAuth = getAuth(app); // Used to verify ID tokens sent by the client
+const adminStorage = getStorage(app); // Holds uploaded PDFs when FIREBASE_STORAGE_BUCKET is set
+
+export { adminDb, adminAuth, adminStorage };
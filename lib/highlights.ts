@@ -0,0 +1,76 @@
+// Highlighted search fragments in a markup-free format.
+// Typesense wraps matches in tags inside the field text; we split that into plain-text
+// segments so the client renders them as React text nodes and never injects HTML.
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean; // True for the parts of the text that matched the query
+}
+
+export interface PaperHighlights {
+  title?: HighlightSegment[];
+  abstract?: HighlightSegment[]; // Snippet around the matches, not the whole abstract
+  authors?: HighlightSegment[][]; // Only the authors that matched
+}
+
+// Tags requested from Typesense (highlight_start_tag / highlight_end_tag)
+export const highlightStartTag = '<mark>';
+export const highlightEndTag = '</mark>';
+
+interface TypesenseHighlightField {
+  matched_tokens?: unknown[];
+  snippet?: string;
+  value?: string;
+}
+
+// Split "foo <mark>bar</mark> baz" into [{foo, false}, {bar, true}, {baz, false}]
+export function parseHighlight(marked: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = marked;
+  while (rest.length > 0) {
+    const start = rest.indexOf(highlightStartTag);
+    if (start === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+    const end = rest.indexOf(highlightEndTag, start + highlightStartTag.length);
+    if (end === -1) {
+      // Unbalanced tag: treat the remainder as plain text
+      segments.push({ text: rest.replace(highlightStartTag, ''), match: false });
+      break;
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), match: false });
+    segments.push({ text: rest.slice(start + highlightStartTag.length, end), match: true });
+    rest = rest.slice(end + highlightEndTag.length);
+  }
+  return segments.filter(segment => segment.text.length > 0);
+}
+
+function hasMatch(field: TypesenseHighlightField | undefined): field is TypesenseHighlightField {
+  return !!field && Array.isArray(field.matched_tokens) && field.matched_tokens.length > 0;
+}
+
+// Convert a Typesense hit's `highlight` object into PaperHighlights.
+// Returns undefined when none of the highlighted fields matched.
+export function toPaperHighlights(highlight: Record<string, unknown> | undefined): PaperHighlights | undefined {
+  if (!highlight) return undefined;
+  const result: PaperHighlights = {};
+
+  const title = highlight.title as TypesenseHighlightField | undefined;
+  if (hasMatch(title)) {
+    result.title = parseHighlight(title.value ?? title.snippet ?? '');
+  }
+
+  const abstract = highlight.abstract as TypesenseHighlightField | undefined;
+  if (hasMatch(abstract)) {
+    result.abstract = parseHighlight(abstract.snippet ?? abstract.value ?? '');
+  }
+
+  const authors = highlight.authors as TypesenseHighlightField[] | undefined;
+  if (Array.isArray(authors)) {
+    const matched = authors.filter(hasMatch).map(author => parseHighlight(author.value ?? author.snippet ?? ''));
+    if (matched.length > 0) result.authors = matched;
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
@@ -0,0 +1,51 @@
+import { embedText } from '@/lib/embedding';
+import { qdrantClient, qdrantCollectionName } from '@/lib/qdrant';
+
+// Best-matching chunk of a paper for a semantic query
+export interface SemanticPaperMatch {
+  paperId: string;
+  score: number; // Cosine similarity of the best chunk
+  chunkText: string;
+  chunkIndex: number;
+}
+
+// Constant from the original RRF paper (Cormack et al., 2009); dampens the weight of top ranks
+const rrfK = 60;
+
+// Embed the query and return the papers whose chunks are closest to it, best chunk per paper
+export async function searchPapersByChunks(query: string, limit: number): Promise<SemanticPaperMatch[]> {
+  const vector = await embedText(query);
+
+  const { groups } = await qdrantClient.searchPointGroups(qdrantCollectionName, {
+    vector,
+    group_by: 'paperId',
+    group_size: 1,
+    limit,
+    with_payload: true,
+  });
+
+  return groups.flatMap(group => {
+    const hit = group.hits[0];
+    if (!hit) return [];
+    return [{
+      paperId: String(group.id),
+      score: hit.score,
+      chunkText: String(hit.payload?.chunkText ?? ''),
+      chunkIndex: Number(hit.payload?.chunkIndex ?? 0),
+    }];
+  });
+}
+
+// Reciprocal rank fusion: each ranking contributes 1 / (k + rank) for every id it contains.
+// Returns ids ordered by fused score, highest first.
+export function reciprocalRankFusion(rankings: string[][], k = rrfK): { id: string; score: number }[] {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,120 @@
+import type { StructuredText } from './structure';
+
+// Chunking settings; changing them changes every content hash, so the next ingest re-chunks all papers
+export const chunkSize = 500; // Most characters per chunk; longer sentences are split at spaces
+export const chunkOverlap = 100; // Most characters of whole sentences repeated from the previous chunk
+
+export interface TextChunk {
+  text: string;
+  pageNumber: number; // Page the chunk starts on, for citations
+  pageEnd: number;
+  section?: string; // Heading of the section the chunk is in
+  charStart: number; // Offsets of the chunk in the paper's text; consecutive chunks may overlap
+  charEnd: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  heading?: boolean;
+}
+
+// Words that end with a period without ending the sentence
+const abbreviations = new Set(['e.g', 'i.e', 'al', 'etc', 'fig', 'figs', 'eq', 'eqs', 'sec', 'secs', 'tab', 'vs', 'cf', 'resp', 'approx', 'no', 'dr', 'prof']);
+
+// 1-based number of the page containing the character at `offset`
+function pageAt(pageStarts: number[], offset: number): number {
+  let page = 1;
+  pageStarts.forEach((pageStart, i) => {
+    if (pageStart !== undefined && pageStart <= offset) page = i + 1;
+  });
+  return page;
+}
+
+// Sentences of text[start, end), trimmed
+function sentenceSpans(text: string, start: number, end: number): Span[] {
+  const paragraph = text.slice(start, end);
+  const spans: Span[] = [];
+  let sentenceStart = 0;
+  for (const match of paragraph.matchAll(/[.!?]["')\]]*\s+(?=["'([]?[\p{Lu}\d])/gu)) {
+    const word = paragraph.slice(0, match.index).match(/(\S+)$/)?.[1] ?? '';
+    // "et al. Smith", "Fig. 3", and initials such as "A. Vaswani"
+    if (match[0][0] === '.' && (abbreviations.has(word.toLowerCase()) || /^\p{Lu}$/u.test(word))) continue;
+    const sentenceEnd = match.index + match[0].trimEnd().length;
+    spans.push({ start: start + sentenceStart, end: start + sentenceEnd });
+    sentenceStart = match.index + match[0].length;
+  }
+  if (paragraph.slice(sentenceStart).trim()) spans.push({ start: start + sentenceStart, end: start + paragraph.trimEnd().length });
+  return spans;
+}
+
+// Split a span longer than size at spaces (or anywhere, for text without spaces)
+function splitLongSpan(text: string, span: Span, size: number): Span[] {
+  const pieces: Span[] = [];
+  let start = span.start;
+  while (span.end - start > size) {
+    const space = text.lastIndexOf(' ', start + size);
+    const end = space > start ? space : start + size;
+    pieces.push({ start, end });
+    start = text[end] === ' ' ? end + 1 : end;
+  }
+  pieces.push({ start, end: span.end });
+  return pieces;
+}
+
+// Trailing sentences of a finished chunk to repeat at the start of the next: at most
+// `overlap` characters, never the heading or the whole chunk, and leaving room for `next`
+function overlapSpans(previous: Span[], next: Span, size: number, overlap: number): Span[] {
+  const last = previous[previous.length - 1];
+  let first = previous.length;
+  while (first > 1 && !previous[first - 1].heading && last.end - previous[first - 1].start <= overlap) first--;
+  const carried = previous.slice(first);
+  while (carried.length > 0 && next.end - carried[0].start > size) carried.shift();
+  return carried;
+}
+
+// Split a paper into chunks of whole sentences, up to `size` characters each. Chunks never
+// cross a section heading, start with the heading at the top of a section, and repeat up
+// to `overlap` characters of the previous chunk's last sentences for context.
+export function chunkStructuredText(doc: StructuredText, size = chunkSize, overlap = chunkOverlap): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const toChunk = (spans: Span[], section?: string): TextChunk => {
+    const charStart = spans[0].start;
+    const charEnd = spans[spans.length - 1].end;
+    return {
+      text: doc.text.slice(charStart, charEnd),
+      pageNumber: pageAt(doc.pageStarts, charStart),
+      pageEnd: pageAt(doc.pageStarts, charEnd - 1),
+      ...(section && { section }),
+      charStart,
+      charEnd,
+    };
+  };
+
+  let current: Span[] = [];
+  let currentSection: string | undefined;
+  const flush = () => {
+    if (current.length > 0) chunks.push(toChunk(current, currentSection));
+    current = [];
+  };
+
+  for (const block of doc.blocks) {
+    if (block.heading || block.section !== currentSection) {
+      flush();
+      currentSection = block.section;
+    }
+    const spans = block.heading ? [{ start: block.start, end: block.end, heading: true }] : sentenceSpans(doc.text, block.start, block.end);
+
+    for (const span of spans.flatMap(span => splitLongSpan(doc.text, span, size))) {
+      if (current.length > 0 && span.end - current[0].start > size) {
+        const previous = current;
+        flush();
+        current = overlapSpans(previous, span, size, overlap);
+      }
+      current.push(span);
+    }
+  }
+  flush();
+
+  return chunks;
+}
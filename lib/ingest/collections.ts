@@ -0,0 +1,157 @@
+import type { CollectionCreateSchema } from 'typesense/lib/Typesense/Collections';
+import { embeddingDimensions } from '@/lib/embedding';
+import { qdrantClient, qdrantCollectionName } from '@/lib/qdrant';
+import { collectionName as typesenseCollectionName, createTypesenseClient } from '@/lib/search/typesense';
+
+// Typesense schema of the 'papers' collection (see PaperDocument in '@/lib/search')
+const typesenseSchema: CollectionCreateSchema = {
+  name: typesenseCollectionName,
+  fields: [
+    { name: 'title', type: 'string' },
+    { name: 'abstract', type: 'string' },
+    { name: 'authors', type: 'string[]', facet: true },
+    { name: 'categories', type: 'string[]', facet: true },
+    { name: 'year', type: 'int32', facet: true },
+    { name: 'pdfUrl', type: 'string' },
+    { name: 'source', type: 'string', facet: true },
+    // Papers imported by scripts/import-arxiv.mjs
+    { name: 'arxivId', type: 'string', optional: true },
+    { name: 'arxivVersion', type: 'int32', optional: true },
+    // Papers uploaded through /api/papers/upload
+    { name: 'uploadedBy', type: 'string', optional: true },
+  ],
+  default_sorting_field: 'year',
+};
+
+let typesenseClient: ReturnType<typeof createTypesenseClient> | null = null;
+
+function typesense() {
+  if (!typesenseClient) typesenseClient = createTypesenseClient();
+  return typesenseClient;
+}
+
+function httpStatus(error: unknown): number | undefined {
+  return (error as { httpStatus?: number }).httpStatus;
+}
+
+// Create the Typesense collection if it doesn't exist; with recreate, drop it first
+async function setUpTypesense(recreate: boolean): Promise<void> {
+  const collection = typesense().collections(typesenseCollectionName);
+  if (recreate) {
+    try {
+      await collection.delete();
+      console.log(`Deleted existing Typesense collection: ${typesenseCollectionName}`);
+    } catch (error) {
+      if (httpStatus(error) !== 404) throw error;
+    }
+  } else {
+    try {
+      const existing = await collection.retrieve();
+      // Add fields introduced since the collection was created; other schema changes need a rebuild
+      const existingFields = new Set(existing.fields.map(field => field.name));
+      const missingFields = typesenseSchema.fields.filter(field => !existingFields.has(field.name));
+      if (missingFields.length > 0) {
+        await collection.update({ fields: missingFields });
+        console.log(`Added fields to Typesense collection: ${missingFields.map(field => field.name).join(', ')}`);
+      }
+      return;
+    } catch (error) {
+      if (httpStatus(error) !== 404) throw error;
+    }
+  }
+
+  await typesense().collections().create(typesenseSchema);
+  console.log(`Created Typesense collection: ${typesenseCollectionName}`);
+}
+
+// Create the Qdrant collection if it doesn't exist; with recreate, drop it first
+async function setUpQdrant(recreate: boolean): Promise<void> {
+  try {
+    await qdrantClient.getCollection(qdrantCollectionName);
+    if (!recreate) return;
+    await qdrantClient.deleteCollection(qdrantCollectionName);
+    console.log(`Deleted existing Qdrant collection: ${qdrantCollectionName}`);
+  } catch (error) {
+    if ((error as { status?: number }).status !== 404) throw error;
+  }
+
+  await qdrantClient.createCollection(qdrantCollectionName, {
+    vectors: { size: embeddingDimensions, distance: 'Cosine' },
+  });
+  // Payload indexes for filtering by paper and finding a paper's first or stale chunks
+  await qdrantClient.createPayloadIndex(qdrantCollectionName, {
+    field_name: 'paperId',
+    field_schema: 'keyword',
+    wait: true,
+  });
+  await qdrantClient.createPayloadIndex(qdrantCollectionName, {
+    field_name: 'chunkIndex',
+    field_schema: 'integer',
+    wait: true,
+  });
+  console.log(`Created Qdrant collection: ${qdrantCollectionName}`);
+}
+
+// Make sure the 'papers' and 'paper_chunks' collections exist. recreate drops them first,
+// deleting every paper, for a full re-ingest.
+export async function setUpCollections(recreate = false): Promise<void> {
+  await setUpTypesense(recreate);
+  await setUpQdrant(recreate);
+}
+
+// Content hash of each paper with chunks, read from its first chunk. Papers ingested
+// before hashes were stored have null, so they are re-ingested once.
+export async function storedContentHashes(): Promise<Map<string, string | null>> {
+  const hashes = new Map<string, string | null>();
+  let offset: string | number | Record<string, unknown> | null | undefined = undefined;
+  do {
+    const { points, next_page_offset } = await qdrantClient.scroll(qdrantCollectionName, {
+      filter: { must: [{ key: 'chunkIndex', match: { value: 0 } }] },
+      with_payload: ['paperId', 'contentHash'],
+      with_vector: false,
+      limit: 500,
+      offset: offset ?? undefined,
+    });
+    for (const { payload } of points) {
+      hashes.set(payload?.paperId as string, (payload?.contentHash as string | undefined) ?? null);
+    }
+    offset = points.length > 0 ? next_page_offset : null;
+  } while (offset !== null && offset !== undefined);
+  return hashes;
+}
+
+export interface IndexedPaper {
+  id: string;
+  uploadedBy?: string;
+}
+
+// Every paper in either store: Typesense documents, plus papers that only have chunks
+export async function indexedPapers(): Promise<IndexedPaper[]> {
+  const [exported, hashes] = await Promise.all([
+    typesense().collections(typesenseCollectionName).documents().export({ include_fields: 'id,uploadedBy' }),
+    storedContentHashes(),
+  ]);
+  const papers = new Map<string, IndexedPaper>(
+    exported.split('\n').filter(Boolean).map(line => {
+      const paper = JSON.parse(line) as IndexedPaper;
+      return [paper.id, paper];
+    }),
+  );
+  for (const paperId of hashes.keys()) {
+    if (!papers.has(paperId)) papers.set(paperId, { id: paperId });
+  }
+  return [...papers.values()];
+}
+
+// Remove a paper's metadata and chunks from both stores
+export async function deletePaper(paperId: string): Promise<void> {
+  try {
+    await typesense().collections(typesenseCollectionName).documents(paperId).delete();
+  } catch (error) {
+    if (httpStatus(error) !== 404) throw error;
+  }
+  await qdrantClient.delete(qdrantCollectionName, {
+    wait: true,
+    filter: { must: [{ key: 'paperId', match: { value: paperId } }] },
+  });
+}
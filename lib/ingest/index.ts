@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { v5 as uuidv5 } from 'uuid';
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+import { embeddingModelName } from '@/lib/embedding';
+import { qdrantClient, qdrantCollectionName, type ChunkPoint } from '@/lib/qdrant';
+import { chunkOverlap, chunkSize, chunkStructuredText, type TextChunk } from './chunking';
+import { readPdfLines } from './pdf';
+import { structurePdfText } from './structure';
+
+// The extract → chunk → embed → upsert pipeline that turns a PDF into 'paper_chunks'
+// points, shared by scripts/ingest.mjs and the upload route.
+
+export { deletePaper, indexedPapers, setUpCollections, storedContentHashes, type IndexedPaper } from './collections';
+
+// Namespace for point ids (uuid v5 of paperId and chunk index), so re-ingesting overwrites
+const pointIdNamespace = '1b671a64-40d5-491e-99b0-da01ff1f3341';
+
+const embeddingBatchSize = 32;
+const upsertBatchSize = 100;
+
+// Bump when the text extraction or chunking logic changes
+const chunkerVersion = 4;
+
+// Part of every content hash, so changing how papers are chunked or embedded re-ingests them all
+const chunkingVersion = `${embeddingModelName}:v${chunkerVersion}:${chunkSize}:${chunkOverlap}`;
+
+// Hash of a PDF and the chunking settings, stored with its chunks to skip unchanged papers
+export function contentHash(pdf: Buffer): string {
+  return createHash('sha256').update(pdf).update(chunkingVersion).digest('hex');
+}
+
+let documentEmbedder: Promise<FeatureExtractionPipeline> | null = null;
+
+// Chunks are embedded with the unquantized model; queries use the default from '@/lib/embedding'
+function getDocumentEmbedder(): Promise<FeatureExtractionPipeline> {
+  if (!documentEmbedder) {
+    console.log(`Loading embedding model: ${embeddingModelName}...`);
+    documentEmbedder = import('@xenova/transformers')
+      .then(({ pipeline }) => pipeline('feature-extraction', embeddingModelName, { quantized: false }))
+      .catch(error => {
+        documentEmbedder = null;
+        throw error;
+      });
+  }
+  return documentEmbedder;
+}
+
+// Chunks are embedded under their section heading, so "what are the limitations?" finds
+// the Limitations section; the stored chunk text stays as it is in the paper
+async function embedChunks(chunks: TextChunk[]): Promise<number[][]> {
+  const texts = chunks.map(chunk => chunk.section && !chunk.text.startsWith(chunk.section) ? `${chunk.section}\n${chunk.text}` : chunk.text);
+  const embedder = await getDocumentEmbedder();
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += embeddingBatchSize) {
+    const tensor = await embedder(texts.slice(i, i + embeddingBatchSize), { pooling: 'mean', normalize: true });
+    embeddings.push(...tensor.tolist() as number[][]);
+  }
+  return embeddings;
+}
+
+// Extract, chunk and embed a paper's PDF and write its chunks to Qdrant, replacing any
+// from an earlier version. Returns the number of chunks; 0 when the PDF has no text, in
+// which case nothing is written. Throws when the PDF can't be read.
+export async function ingestPaperChunks(paperId: string, pdf: Buffer, hash = contentHash(pdf)): Promise<number> {
+  const chunks = chunkStructuredText(structurePdfText(await readPdfLines(pdf)));
+  if (chunks.length === 0) return 0;
+
+  const embeddings = await embedChunks(chunks);
+  const ingestedAt = new Date().toISOString(); // Lets caches of generated text (e.g. summaries) spot re-ingested papers
+  const points: (ChunkPoint & { vector: number[] })[] = chunks.map((chunk, i) => ({
+    id: uuidv5(`${paperId}_${i}`, pointIdNamespace),
+    vector: embeddings[i],
+    payload: {
+      paperId,
+      chunkText: chunk.text,
+      chunkIndex: i,
+      pageNumber: chunk.pageNumber,
+      pageEnd: chunk.pageEnd,
+      section: chunk.section,
+      charStart: chunk.charStart,
+      charEnd: chunk.charEnd,
+      ingestedAt,
+      contentHash: hash,
+    },
+  }));
+  // Chunk 0 carries the hash that marks the paper as done, so write it last: an
+  // interrupted run leaves the old hash and the paper is ingested again next time
+  points.push(points.shift()!);
+
+  for (let i = 0; i < points.length; i += upsertBatchSize) {
+    await qdrantClient.upsert(qdrantCollectionName, {
+      wait: true,
+      points: points.slice(i, i + upsertBatchSize),
+    });
+  }
+  // Remove chunks past the end of the new text, left over from a longer old version
+  await qdrantClient.delete(qdrantCollectionName, {
+    wait: true,
+    filter: {
+      must: [
+        { key: 'paperId', match: { value: paperId } },
+        { key: 'chunkIndex', range: { gte: chunks.length } },
+      ],
+    },
+  });
+  return chunks.length;
+}
@@ -0,0 +1,273 @@
+import { completeWithFallback } from '@/lib/llm';
+import { readPdfLines, type PdfLine } from './pdf';
+import { structurePdfText, type StructuredText } from './structure';
+
+// Paper metadata inferred from a PDF's first pages, for papers missing from metadata.json.
+// Every field records how it was found and how sure the extractor is (0 to 1); papers with
+// a required field below reviewConfidence should be checked by hand before indexing.
+
+export type MetadataMethod = 'layout' | 'arxiv-stamp' | 'llm';
+
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number;
+  method: MetadataMethod;
+}
+
+export interface ExtractedMetadata {
+  title?: ExtractedField<string>;
+  authors?: ExtractedField<string[]>;
+  abstract?: ExtractedField<string>;
+  year?: ExtractedField<number>;
+  categories?: ExtractedField<string[]>;
+  arxivId?: ExtractedField<string>;
+  arxivVersion?: ExtractedField<number>;
+}
+
+export interface MetadataExtractionOptions {
+  useLlm?: boolean; // Ask the LLM to fill in or confirm fields the layout pass isn't sure of
+}
+
+// Fields a paper can't be indexed without
+export const requiredMetadataFields = ['title', 'authors', 'abstract', 'year'] as const;
+export type RequiredMetadataField = typeof requiredMetadataFields[number];
+
+export const reviewConfidence = 0.6;
+
+// Bump when the heuristics change, so cached extractions are redone
+export const metadataExtractorVersion = 2;
+
+// Pages the extractor looks at; title, authors and abstract are almost always on the first
+const metadataPages = 2;
+
+// The vertical arXiv stamp: "arXiv:1706.03762v7 [cs.CL] 2 Aug 2023"
+const arxivStampPattern = /arXiv:(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v(\d+))?\s*\[([\w.-]+)\]/;
+
+// Words that mark an affiliation rather than a person
+const affiliationPattern = /\b(?:universit\w*|univ|institut\w*|college|school|department|dept|laborator\w*|lab|labs|research|center|centre|inc|corp\w*|ltd|company|google|brain|microsoft|facebook|meta|deepmind|openai|amazon|nvidia|ibm|academy|hospital|foundation|ai)\b/i;
+
+// A person's name: two or three capitalized words, allowing initials, hyphens and particles
+const namePattern = /^\p{Lu}[\p{L}'’.-]*(?:\s+(?:(?:van|von|der|de|da|di|la|le)\s+)?\p{Lu}[\p{L}'’.-]*){1,2}$/u;
+
+// Footnote markers after names: "Vaswani∗", "Smith1,2", "Lee†‡", and symbols some fonts
+// extract as control characters or a lone "y" or "z" ("Ozair y" for "Ozair†")
+const footnoteMarkerPattern = /[∗*†‡§¶♮⋆\u0000-\u001f]+|(?<=\p{L})\d+(?:,\d+)*|(?<=\p{L}\s)[yz](?=\s*(?:,|$))/gu;
+
+// Text that could be (part of) a name but didn't parse as one: "ChristianSzegedy"
+const nameLikePattern = /^\p{Lu}[\p{L}'’.-]*(?:\s+\p{Lu}[\p{L}'’.-]*){0,5}$/u;
+
+// Words of more letters than this are almost always words run together by the PDF, which
+// left out the spaces: "AcceleratingDeepNetworkTraining"
+const maxWordLength = 20;
+
+// Common English words; prose where few words are among them is probably run together
+const functionWords = new Set(['a', 'an', 'the', 'of', 'to', 'in', 'on', 'for', 'with', 'by', 'and', 'or', 'is', 'are', 'we', 'that', 'this', 'from', 'as', 'be', 'it', 'which', 'can', 'our']);
+
+function field<T>(value: T, confidence: number, method: MetadataMethod): ExtractedField<T> {
+  return { value, confidence, method };
+}
+
+// Share of the text's letters in words too long to be real ones
+function runTogetherShare(text: string): number {
+  const words = text.match(/\p{L}+/gu) ?? [];
+  const letters = words.reduce((total, word) => total + word.length, 0);
+  const runTogether = words.filter(word => word.length > maxWordLength).reduce((total, word) => total + word.length, 0);
+  return letters === 0 ? 0 : runTogether / letters;
+}
+
+// Share of the text's words that are common function words; a quarter to a third in English prose
+function functionWordShare(text: string): number {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  return words.length === 0 ? 0 : words.filter(word => functionWords.has(word)).length / words.length;
+}
+
+// Required fields that are missing or below reviewConfidence
+export function fieldsNeedingReview(metadata: ExtractedMetadata, fields: readonly RequiredMetadataField[] = requiredMetadataFields): RequiredMetadataField[] {
+  return fields.filter(name => (metadata[name]?.confidence ?? 0) < reviewConfidence);
+}
+
+function fromArxivStamp(lines: PdfLine[]): Pick<ExtractedMetadata, 'arxivId' | 'arxivVersion' | 'categories' | 'year'> {
+  for (const line of lines) {
+    const match = line.text.replace(/\s+/g, ' ').match(arxivStampPattern);
+    if (!match) continue;
+    const [, arxivId, version, category] = match;
+    // New-style ids start with the submission's YYMM; old-style ones end with YYNNNNN
+    const yy = parseInt(arxivId.includes('/') ? arxivId.split('/')[1].slice(0, 2) : arxivId.slice(0, 2), 10);
+    return {
+      arxivId: field(arxivId, 0.95, 'arxiv-stamp'),
+      ...(version && { arxivVersion: field(parseInt(version, 10), 0.95, 'arxiv-stamp') }),
+      categories: field([category], 0.9, 'arxiv-stamp'),
+      // The first version's year, which may be earlier than the version stamped
+      year: field(yy > 90 ? 1900 + yy : 2000 + yy, 0.8, 'arxiv-stamp'),
+    };
+  }
+  return {};
+}
+
+// The lines of page 1 above the abstract (or the first heading), minus the arXiv stamp
+function frontMatter(lines: PdfLine[]): PdfLine[] {
+  const firstPage = lines.filter(line => line.page === 1 && !arxivStampPattern.test(line.text.replace(/\s+/g, ' ')));
+  const end = firstPage.findIndex(line => /^(?:abstract|(?:1\.?\s+)?introduction)\b/i.test(line.text.trim()));
+  return end === -1 ? firstPage : firstPage.slice(0, end);
+}
+
+// The title is the first run of lines in the largest print above the abstract
+function titleFromLayout(front: PdfLine[], bodySize: number): { title?: ExtractedField<string>; titleEnd: number } {
+  const candidates = front.filter(line => line.text.trim().length >= 3);
+  if (candidates.length === 0 || bodySize === 0) return { titleEnd: 0 };
+  const largest = Math.max(...candidates.map(line => line.fontSize));
+  const start = front.findIndex(line => line.text.trim().length >= 3 && line.fontSize >= largest - 0.5);
+  let end = start;
+  while (end < front.length && front[end].fontSize >= largest - 0.5) end++;
+
+  const title = front.slice(start, end).map(line => line.text.trim()).join(' ').replace(/\s+/g, ' ');
+  const lineCount = end - start;
+  const confidence = runTogetherShare(title) > 0.2 ? 0.3
+    : largest >= bodySize * 1.3 && title.length >= 10 && title.length <= 250 && lineCount <= 3 ? 0.85
+    : largest >= bodySize * 1.1 && title.length >= 10 ? 0.6
+    : 0.3;
+  return { title: field(title, confidence, 'layout'), titleEnd: end };
+}
+
+// Author names between the title and the abstract, skipping affiliations, emails and footnotes
+function authorsFromLayout(front: PdfLine[], bodySize: number): ExtractedField<string[]> | undefined {
+  const names: string[] = [];
+  let guessed = false; // Some names were split from a run of words, so the boundaries are guesses
+  let missed = false; // Some text looked like a name but couldn't be read as one, so the list may be cut short
+
+  for (const line of front) {
+    if (line.fontSize < bodySize * 0.9 || /@|https?:/.test(line.text)) continue;
+    const parts = line.text.replace(footnoteMarkerPattern, ' ').split(/,|;|\band\b|&/);
+    for (const part of parts) {
+      const candidate = part.replace(/\s+/g, ' ').trim();
+      if (!candidate) continue;
+      // The rest of the line is the affiliation's address: "Google Inc., Mountain View, CA"
+      if (affiliationPattern.test(candidate)) break;
+      if (namePattern.test(candidate)) {
+        names.push(candidate);
+        continue;
+      }
+      // Names on one line with nothing but wide spaces between them: "Jacob Devlin Ming-Wei Chang"
+      const words = candidate.split(' ');
+      if (words.length >= 4 && words.length % 2 === 0 && words.every(word => /^\p{Lu}[\p{L}'’.-]*$/u.test(word))) {
+        for (let i = 0; i < words.length; i += 2) names.push(`${words[i]} ${words[i + 1]}`);
+        guessed = true;
+      } else if (nameLikePattern.test(candidate)) {
+        missed = true;
+      }
+    }
+  }
+
+  const unique = [...new Set(names)];
+  if (unique.length === 0) return undefined;
+  return field(unique, missed ? 0.4 : guessed ? 0.5 : 0.75, 'layout');
+}
+
+// The text of the Abstract section, often set a little smaller than the body, leaving out
+// footnotes set smaller still
+function abstractFromLayout(doc: StructuredText): ExtractedField<string> | undefined {
+  const blocks = doc.blocks.filter(block => !block.heading && block.section?.toLowerCase() === 'abstract' && block.fontSize >= doc.bodyFontSize * 0.85);
+  const abstract = blocks.map(block => doc.text.slice(block.start, block.end)).join('\n\n').trim();
+  if (!abstract) return undefined;
+  const confidence = runTogetherShare(abstract) > 0.1 || functionWordShare(abstract) < 0.15 ? 0.3
+    : abstract.length >= 200 && abstract.length <= 3000 ? 0.85
+    : 0.5;
+  return field(abstract, confidence, 'layout');
+}
+
+// The most frequent plausible year on the first page, e.g. from a conference footer
+function yearFromLayout(front: PdfLine[]): ExtractedField<number> | undefined {
+  const counts = new Map<number, number>();
+  const maxYear = new Date().getUTCFullYear() + 1;
+  for (const line of front) {
+    for (const match of line.text.matchAll(/\b(19[5-9]\d|20\d\d)\b/g)) {
+      const year = parseInt(match[1], 10);
+      if (year <= maxYear) counts.set(year, (counts.get(year) ?? 0) + 1);
+    }
+  }
+  const best = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  return best && field(best[0], 0.4, 'layout');
+}
+
+function normalized(value: unknown): string {
+  return JSON.stringify(value).toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function refineField<T>(current: ExtractedField<T> | undefined, answer: ExtractedField<T> | undefined): ExtractedField<T> | undefined {
+  if (!answer) return current;
+  if (current && normalized(current.value) === normalized(answer.value)) {
+    return { ...current, confidence: Math.max(current.confidence, 0.9) };
+  }
+  return answer;
+}
+
+// Ask the LLM for the fields the layout pass isn't sure of. Where it agrees with the
+// layout pass the field becomes more certain; where it doesn't, its answer is used.
+async function refineWithLlm(metadata: ExtractedMetadata, doc: StructuredText): Promise<ExtractedMetadata> {
+  const unsure = requiredMetadataFields.filter(name => (metadata[name]?.confidence ?? 0) < 0.8);
+  if (unsure.length === 0) return metadata;
+
+  const firstPage = doc.text.slice(0, doc.pageStarts[1] ?? 4000).slice(0, 4000);
+  const { text } = await completeWithFallback({
+    messages: [
+      {
+        role: 'system',
+        content: `You extract bibliographic metadata from the first page of a research paper. Respond with only a JSON object with the fields "title" (string), "authors" (list of full names, in order), "abstract" (string, verbatim) and "year" (number). Use null for anything the text doesn't show.`,
+      },
+      { role: 'user', content: firstPage },
+    ],
+    temperature: 0,
+  });
+
+  const data = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1)) as Record<string, unknown>;
+  // An answer without a usable name leaves the layout's guess, and its confidence, as they are
+  const authors = Array.isArray(data.authors)
+    ? data.authors.filter((name): name is string => typeof name === 'string' && name.trim() !== '').map(name => name.trim())
+    : [];
+  const answers: ExtractedMetadata = {
+    ...(typeof data.title === 'string' && data.title.trim() && { title: field(data.title.trim(), 0.75, 'llm') }),
+    ...(authors.length > 0 && { authors: field(authors, 0.75, 'llm') }),
+    ...(typeof data.abstract === 'string' && data.abstract.trim() && { abstract: field(data.abstract.trim(), 0.7, 'llm') }),
+    ...(typeof data.year === 'number' && Number.isInteger(data.year) && { year: field(data.year, 0.7, 'llm') }),
+  };
+
+  const refine = <T,>(name: RequiredMetadataField, current?: ExtractedField<T>, answer?: ExtractedField<T>) =>
+    unsure.includes(name) ? refineField(current, answer) : current;
+  return {
+    ...metadata,
+    title: refine('title', metadata.title, answers.title),
+    authors: refine('authors', metadata.authors, answers.authors),
+    abstract: refine('abstract', metadata.abstract, answers.abstract),
+    year: refine('year', metadata.year, answers.year),
+  };
+}
+
+// Infer a paper's metadata from the layout of its first pages: the title from the largest
+// print, authors from the names below it, the abstract from its section, and the arXiv
+// id, primary category and year from the arXiv stamp when there is one.
+export async function extractPaperMetadata(pdf: Buffer, options: MetadataExtractionOptions = {}): Promise<ExtractedMetadata> {
+  const lines = (await readPdfLines(pdf)).filter(line => line.page <= metadataPages);
+  const doc = structurePdfText(lines);
+  const front = frontMatter(lines);
+  const { title, titleEnd } = titleFromLayout(front, doc.bodyFontSize);
+  const stamp = fromArxivStamp(lines);
+
+  const authors = authorsFromLayout(front.slice(titleEnd), doc.bodyFontSize);
+  const abstract = abstractFromLayout(doc);
+  const year = stamp.year ?? yearFromLayout(front);
+  const metadata: ExtractedMetadata = {
+    ...stamp,
+    ...(title && { title }),
+    ...(authors && { authors }),
+    ...(abstract && { abstract }),
+    ...(year && { year }),
+  };
+  if (!options.useLlm) return metadata;
+
+  try {
+    return await refineWithLlm(metadata, doc);
+  } catch (error) {
+    console.warn('LLM metadata pass failed; keeping the layout results:', error instanceof Error ? error.message : error);
+    return metadata;
+  }
+}
@@ -0,0 +1,77 @@
+import { PdfReader } from 'pdfreader';
+
+// A line of text as laid out on the page. Positions are in pdfreader's page units, with
+// y growing downwards; a line of body text is usually about 0.7 units tall.
+export interface PdfLine {
+  page: number; // 1-based
+  x: number; // Left edge of the line's first item
+  y: number;
+  text: string;
+  fontSize: number; // Size of the line's longest item, so superscripts don't count
+}
+
+// Text item as emitted by pdfreader (its typings leave out the position and font fields)
+interface PdfTextItem {
+  x: number;
+  y: number;
+  w?: number; // Width, in 1/16 page units
+  text: string;
+  R?: { TS?: [number, number, number, number] }[]; // TS: font face, size, bold, italic
+}
+
+// Items whose baselines differ by less than this are on the same line (superscripts sit a little higher)
+const sameLineTolerance = 0.3;
+
+// Items closer than this are parts of one word; spaces between words are about 0.3 wide
+const sameWordGap = 0.1;
+
+// Whether `item` continues a word whose capital is set apart in the item before it: small
+// caps ("A" "DAM" for "ADAM") and styled initials ("B" "idirectional"). Only capitals, as
+// widths across other font changes are too rough to tell a word break from a join.
+function continuesWord(previous: PdfTextItem | null, item: PdfTextItem): boolean {
+  if (!previous || !/^\p{Lu}$/u.test(previous.text.trim()) || !/^\p{L}/u.test(item.text.trim())) return false;
+  return Math.abs(previous.x + (previous.w ?? 0) / 16 - item.x) < sameWordGap;
+}
+
+// Read a PDF's text as lines, in pdfreader's reading order
+export function readPdfLines(pdf: Buffer): Promise<PdfLine[]> {
+  return new Promise((resolve, reject) => {
+    const lines: PdfLine[] = [];
+    let page = 0;
+    let line: PdfLine | null = null;
+    let longestItem = 0;
+    let previousItem: PdfTextItem | null = null;
+
+    new PdfReader(null).parseBuffer(pdf, (err, entry) => {
+      if (err) {
+        reject(new Error(`Could not read PDF: ${err}`));
+      } else if (!entry) {
+        // End of file
+        resolve(lines);
+      } else if (entry.page) {
+        // pdfreader emits a { page } item before the items of each page
+        page = entry.page;
+        line = null;
+        previousItem = null;
+      } else if (entry.text) {
+        const item = entry as unknown as PdfTextItem;
+        const text = item.text.trim();
+        if (!text) return;
+        const fontSize = item.R?.[0]?.TS?.[1] ?? 0;
+
+        if (line && Math.abs(item.y - line.y) < sameLineTolerance) {
+          line.text += (continuesWord(previousItem, item) ? '' : ' ') + text;
+          if (text.length > longestItem) {
+            longestItem = text.length;
+            line.fontSize = fontSize;
+          }
+        } else {
+          line = { page, x: item.x, y: item.y, text, fontSize };
+          longestItem = text.length;
+          lines.push(line);
+        }
+        previousItem = item;
+      }
+    });
+  });
+}
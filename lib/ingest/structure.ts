@@ -0,0 +1,146 @@
+import type { PdfLine } from './pdf';
+
+// A paragraph or heading of a paper's text, as character offsets into StructuredText.text
+export interface TextBlock {
+  start: number;
+  end: number;
+  heading: boolean;
+  fontSize: number; // Of the block's first line
+  section?: string; // Heading of the section the block is in; missing before the first heading
+}
+
+export interface StructuredText {
+  text: string; // Blocks separated by blank lines, with lines inside a block joined by spaces
+  pageStarts: number[]; // pageStarts[i] is the offset in text where page i + 1 begins
+  blocks: TextBlock[];
+  bodyFontSize: number; // Font size of most of the text
+}
+
+// Headings recognised by name, with or without numbering ("4 Experiments", "II. RELATED WORK")
+const sectionNames = new Set([
+  'abstract', 'introduction', 'background', 'related work', 'related works', 'preliminaries',
+  'method', 'methods', 'methodology', 'approach', 'our approach', 'model architecture',
+  'experiments', 'experimental setup', 'experimental results', 'evaluation', 'results',
+  'discussion', 'analysis', 'conclusion', 'conclusions', 'conclusion and future work',
+  'future work', 'limitations', 'acknowledgements', 'acknowledgments', 'references',
+  'bibliography', 'appendix', 'supplementary material',
+]);
+
+const numberingPattern = /^(?:\d+(?:\.\d+)*\.?|[IVX]+\.)\s+/;
+
+// "Abstract—We propose..." and "Abstract. We..." put the heading at the start of the paragraph
+const inlineAbstractPattern = /^(abstract)\s*[.:—–-]\s*(?=\S)/i;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Font size of most of the text, weighted by length
+function bodyFontSize(lines: PdfLine[]): number {
+  const lengthBySize = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    lengthBySize.set(size, (lengthBySize.get(size) ?? 0) + line.text.length);
+  }
+  return [...lengthBySize.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+// Whether a line starting a block is a section heading: a known section name, or a short
+// numbered title ("3.2 Attention"). Smaller print (footnotes, captions) never is.
+function isHeading(line: PdfLine, bodySize: number): boolean {
+  const text = line.text.trim();
+  if (text.length > 80 || line.fontSize < bodySize * 0.95) return false;
+  const name = text.replace(numberingPattern, '').replace(/[.:]$/, '').trim();
+  if (sectionNames.has(name.toLowerCase())) return true;
+
+  return numberingPattern.test(text)
+    && /^[A-Z]/.test(name)
+    && name.split(/\s+/).length <= 10
+    && !/[.,;:]/.test(name) // Numbered list items, like "1. Question: Does it..."
+    && !/\d$/.test(name) // Numbers in running text, like "2 of 3 layers"
+    && !/\s(?:a|an|the|of|to|and|or|in|for|with|on|by|such|is|are)$/i.test(name); // Sentences wrapped onto the next line
+}
+
+// Whether `next` continues a heading wrapped onto a second line: a short line right below
+// it, followed by a paragraph gap
+function continuesHeading(heading: PdfLine, next: PdfLine | undefined, after: PdfLine | undefined, lineGap: number): boolean {
+  if (!next || next.page !== heading.page || next.y - heading.y > lineGap * 1.3 || Math.abs(next.fontSize - heading.fontSize) > 1) return false;
+  if (next.text.length > 50 || /[.!?:,;]$/.test(next.text)) return false;
+  return !after || after.page !== next.page || after.y - next.y > lineGap * 1.3;
+}
+
+// Group lines into paragraphs and headings, and label each block with its section.
+// A paragraph ends at a larger than usual gap, a change in font size, or a column or
+// page break after a sentence end; lines that only continue in the next column don't.
+export function structurePdfText(lines: PdfLine[]): StructuredText {
+  const bodySize = bodyFontSize(lines);
+  const lineGap = median(lines.slice(1)
+    .map((line, i) => line.page === lines[i].page ? line.y - lines[i].y : 0)
+    .filter(gap => gap > 0 && gap < 3));
+
+  let text = '';
+  const pageStarts: number[] = [];
+  const blocks: TextBlock[] = [];
+  let block: TextBlock | null = null;
+  let section: string | undefined;
+
+  const closeBlock = () => {
+    if (block) {
+      block.end = text.length;
+      blocks.push(block);
+      block = null;
+    }
+  };
+  const openBlock = (heading: boolean, fontSize: number) => {
+    closeBlock();
+    if (text) text += '\n\n';
+    block = { start: text.length, end: text.length, heading, fontSize, section };
+  };
+
+  const append = (page: number, value: string) => {
+    if (pageStarts[page - 1] === undefined) pageStarts[page - 1] = text.length;
+    text += value;
+  };
+
+  let skipLine = -1; // Second line of a wrapped heading, already added to it
+
+  lines.forEach((line, i) => {
+    if (i === skipLine) return;
+    const previous = lines[i - 1];
+    const startsBlock = !previous || !block
+      || Math.abs(line.fontSize - previous.fontSize) > 1
+      || (line.page === previous.page && line.y - previous.y > lineGap * 1.3)
+      || ((line.page !== previous.page || line.y < previous.y) && /[.!?:]$/.test(previous.text));
+    let lineText = line.text.trim();
+
+    const inlineAbstract = startsBlock ? lineText.match(inlineAbstractPattern) : null;
+    if (startsBlock && (inlineAbstract || isHeading(line, bodySize))) {
+      section = inlineAbstract ? inlineAbstract[1] : lineText;
+      if (!inlineAbstract && continuesHeading(line, lines[i + 1], lines[i + 2], lineGap)) {
+        section = /\p{L}-$/u.test(section) ? section.slice(0, -1) + lines[i + 1].text.trim() : `${section} ${lines[i + 1].text.trim()}`;
+        skipLine = i + 1;
+      }
+      openBlock(true, line.fontSize);
+      append(line.page, section);
+      if (!inlineAbstract) {
+        closeBlock();
+        return;
+      }
+      lineText = lineText.slice(inlineAbstract[0].length);
+      openBlock(false, line.fontSize);
+    } else if (startsBlock) {
+      openBlock(false, line.fontSize);
+    } else if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(lineText)) {
+      // Rejoin a word hyphenated across lines
+      text = text.slice(0, -1);
+    } else {
+      text += ' ';
+    }
+    append(line.page, lineText);
+  });
+  closeBlock();
+
+  return { text, pageStarts, blocks, bodyFontSize: bodySize };
+}
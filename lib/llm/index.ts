@@ -0,0 +1,180 @@
+import { envInt } from '@/lib/utils';
+import { MockLlmProvider } from './mock';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { LlmError, type LlmErrorKind, type LlmProvider, type LlmRequest } from './types';
+
+export { LlmError } from './types';
+export type { LlmErrorKind, LlmMessage, LlmProvider, LlmRequest } from './types';
+
+// --- Configuration ---
+// LLM_MODELS lists the models to try, in order, as provider:model. Providers:
+//   openrouter  OpenRouter, with OPENROUTER_API_KEY
+//   openai      any OpenAI-compatible server at LLM_BASE_URL (e.g. Ollama), with optional LLM_API_KEY
+//   mock        deterministic answers for tests, no network
+const defaultModels = 'openrouter:openai/gpt-4o-mini,openrouter:google/gemini-2.0-flash,openrouter:mistralai/mistral-7b-instruct';
+
+const providerFactories: Record<string, () => LlmProvider> = {
+  openrouter: () => new OpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey: process.env.OPENROUTER_API_KEY,
+    // Attribution headers OpenRouter shows on its dashboard
+    headers: { 'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000', 'X-Title': 'Social ArXiv Demo' },
+  }),
+  openai: () => new OpenAICompatibleProvider({
+    name: 'openai',
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.LLM_API_KEY,
+  }),
+  mock: () => new MockLlmProvider(),
+};
+
+export interface FallbackPolicy {
+  fallBackOn: LlmErrorKind[]; // Failures that move on to a retry or the next model; others end the request
+  retries: number; // Extra attempts on the same model before moving on
+  retryDelayMs: number; // Wait before a retry, multiplied by the attempt number
+  timeoutMs: number; // Whole request for completions; time to the first token for streams
+}
+
+export const fallbackPolicy: FallbackPolicy = {
+  fallBackOn: (process.env.LLM_FALLBACK_ON || 'rate_limit,timeout,server,network')
+    .split(',').map(kind => kind.trim()).filter(Boolean) as LlmErrorKind[],
+  retries: envInt('LLM_RETRIES', 0),
+  retryDelayMs: envInt('LLM_RETRY_DELAY_MS', 1000),
+  timeoutMs: envInt('LLM_TIMEOUT_MS', 30000),
+};
+
+interface ModelTarget {
+  provider: LlmProvider;
+  model: string;
+  label: string; // provider:model, as configured
+}
+
+let targets: ModelTarget[] | null = null;
+
+function getModelTargets(): ModelTarget[] {
+  if (!targets) {
+    const providers = new Map<string, LlmProvider>();
+    targets = (process.env.LLM_MODELS || defaultModels).split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+      // Split on the first colon only; model names like llama3.1:8b contain one
+      const separator = entry.indexOf(':');
+      const providerName = separator === -1 ? entry : entry.slice(0, separator);
+      const model = separator === -1 ? '' : entry.slice(separator + 1);
+      const factory = providerFactories[providerName];
+      if (!factory || !model) {
+        throw new Error(`Invalid LLM_MODELS entry "${entry}": use provider:model with provider one of ${Object.keys(providerFactories).join(', ')}`);
+      }
+      if (!providers.has(providerName)) providers.set(providerName, factory());
+      return { provider: providers.get(providerName)!, model, label: entry };
+    });
+  }
+  return targets;
+}
+
+// provider:model tried first, e.g. to key caches of generated text by model
+export function preferredModel(): string {
+  return getModelTargets()[0]?.label ?? '';
+}
+
+// --- Fallback ---
+
+// Every attempt allowed by the policy: each model in order, retried in place first
+async function* attempts(signal?: AbortSignal): AsyncGenerator<ModelTarget & { attempt: number }> {
+  for (const target of getModelTargets()) {
+    for (let attempt = 0; attempt <= fallbackPolicy.retries; attempt++) {
+      if (attempt > 0) await new Promise(resolve => setTimeout(resolve, fallbackPolicy.retryDelayMs * attempt));
+      if (signal?.aborted) return;
+      yield { ...target, attempt };
+    }
+  }
+}
+
+// Signal that aborts with the caller's signal or after timeoutMs, whichever comes first
+function timeoutSignal(parent: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  parent?.addEventListener('abort', onAbort, { once: true });
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clearTimer: () => clearTimeout(timer),
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+function toLlmError(error: unknown, label: string, timedOut: boolean): LlmError {
+  if (timedOut) return new LlmError(`Model ${label} timed out after ${fallbackPolicy.timeoutMs}ms.`, 'timeout');
+  if (error instanceof LlmError) return error;
+  // Unparseable responses and the like
+  return new LlmError(`Model ${label} failed: ${error instanceof Error ? error.message : error}`, 'server');
+}
+
+// Log a failed attempt; returns false when the policy says to stop trying
+function shouldFallBack(error: LlmError, label: string): boolean {
+  if (!fallbackPolicy.fallBackOn.includes(error.kind)) {
+    console.error(`[FATAL] Model ${label} failed (${error.kind}): ${error.message}`);
+    return false;
+  }
+  console.warn(`[FALLBACK] Model ${label} failed (${error.kind}): ${error.message} Trying again...`);
+  return true;
+}
+
+export interface LlmResult {
+  text: string;
+  model: string; // provider:model that answered
+}
+
+// Full completion from the first model that succeeds
+export async function completeWithFallback(request: LlmRequest): Promise<LlmResult> {
+  let lastError: LlmError | null = null;
+  for await (const { provider, model, label, attempt } of attempts(request.signal)) {
+    console.log(`Attempting LLM call with model: ${label}${attempt > 0 ? ` (retry ${attempt})` : ''}`);
+    const timeout = timeoutSignal(request.signal, fallbackPolicy.timeoutMs);
+    try {
+      const text = await provider.complete(model, { ...request, signal: timeout.signal });
+      return { text, model: label };
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      lastError = toLlmError(error, label, timeout.timedOut());
+      if (!shouldFallBack(lastError, label)) throw lastError;
+    } finally {
+      timeout.dispose();
+    }
+  }
+  throw lastError ?? new LlmError('All LLM models failed to return a valid response.', 'server');
+}
+
+// Stream from the first model that produces a token. A model that fails before its
+// first token falls back per the policy; once tokens have been sent, errors are thrown
+// to the caller. Ends without yielding when the model returns an empty answer.
+export async function* streamWithFallback(request: LlmRequest): AsyncGenerator<LlmResult> {
+  let lastError: LlmError | null = null;
+  for await (const { provider, model, label, attempt } of attempts(request.signal)) {
+    console.log(`Attempting streaming LLM call with model: ${label}${attempt > 0 ? ` (retry ${attempt})` : ''}`);
+    const timeout = timeoutSignal(request.signal, fallbackPolicy.timeoutMs);
+    let receivedToken = false;
+    try {
+      for await (const text of provider.stream(model, { ...request, signal: timeout.signal })) {
+        if (!receivedToken) timeout.clearTimer(); // The timeout only covers the wait for the first token
+        receivedToken = true;
+        yield { text, model: label };
+      }
+      return;
+    } catch (error) {
+      if (receivedToken || request.signal?.aborted) throw error;
+      lastError = toLlmError(error, label, timeout.timedOut());
+      if (!shouldFallBack(lastError, label)) throw lastError;
+    } finally {
+      timeout.dispose();
+    }
+  }
+  throw lastError ?? new LlmError('All LLM models failed to return a valid response.', 'server');
+}
@@ -0,0 +1,38 @@
+import { LlmError, type LlmErrorKind, type LlmProvider, type LlmRequest } from './types';
+
+// Model names that make the mock fail, for exercising the fallback policy
+const failures: Record<string, LlmErrorKind> = {
+  'rate-limit': 'rate_limit',
+  'timeout': 'timeout',
+  'server-error': 'server',
+  'bad-request': 'client',
+};
+
+// Deterministic provider for tests and offline development: the answer repeats the
+// question and cites the last passage label in the prompt, so citation rendering
+// can be checked too. Use model 'rate-limit', 'timeout', 'server-error' or
+// 'bad-request' to make it fail.
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock';
+
+  private answer(model: string, request: LlmRequest): string {
+    const kind = failures[model];
+    if (kind) throw new LlmError(`Mock model ${model} failed.`, kind);
+
+    const question = [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    // The last label, since the instructions before the context quote example labels
+    const label = request.messages[0]?.content.match(/\[(?:P\d+\.)?C\d+\]/g)?.pop();
+    return `Mock answer from ${model} to: "${question}"${label ? ` ${label}` : ''}`;
+  }
+
+  async complete(model: string, request: LlmRequest): Promise<string> {
+    return this.answer(model, request);
+  }
+
+  async *stream(model: string, request: LlmRequest): AsyncGenerator<string> {
+    for (const word of this.answer(model, request).split(/(?<= )/)) {
+      if (request.signal?.aborted) throw new LlmError('Mock stream aborted.', 'aborted');
+      yield word;
+    }
+  }
+}
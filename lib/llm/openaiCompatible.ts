@@ -0,0 +1,80 @@
+import { readServerSentEvents } from '@/lib/sse';
+import { LlmError, type LlmProvider, type LlmRequest } from './types';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string; // e.g. https://openrouter.ai/api/v1 or http://localhost:11434/v1
+  apiKey?: string; // Local servers usually need none
+  headers?: Record<string, string>;
+}
+
+// Map an HTTP status to an error kind
+function errorKind(status: number): LlmError['kind'] {
+  if (status === 429) return 'rate_limit';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'client';
+}
+
+// Any server implementing the OpenAI /chat/completions API: OpenRouter, Ollama,
+// llama.cpp's server, vLLM...
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    this.name = config.name;
+  }
+
+  private async post(model: string, request: LlmRequest, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+          ...this.config.headers,
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          stream,
+          temperature: request.temperature,
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new LlmError(`${this.name} is unreachable: ${error instanceof Error ? error.message : error}`, 'network');
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '');
+      console.error(`[${this.name}] Model ${model} returned status ${response.status}`, errorBody);
+      throw new LlmError(`Model ${model} failed with status ${response.status}.`, errorKind(response.status), response.status);
+    }
+    return response;
+  }
+
+  async complete(model: string, request: LlmRequest): Promise<string> {
+    const response = await this.post(model, request, false);
+    const responseData = await response.json();
+    return responseData.choices?.[0]?.message?.content?.trim() || '';
+  }
+
+  async *stream(model: string, request: LlmRequest): AsyncGenerator<string> {
+    const response = await this.post(model, request, true);
+    if (!response.body) throw new LlmError(`Model ${model} returned an empty stream.`, 'server');
+
+    for await (const { data } of readServerSentEvents(response.body)) {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      // OpenRouter reports errors that happen mid-generation inside the stream
+      if (chunk.error) {
+        throw new LlmError(chunk.error.message || `Model ${model} failed mid-stream.`, errorKind(Number(chunk.error.code) || 500));
+      }
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
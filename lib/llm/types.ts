@@ -0,0 +1,33 @@
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  signal?: AbortSignal; // Aborts the upstream request, e.g. when the client disconnects
+}
+
+// How a model call failed; the fallback policy decides which kinds move on to the next model
+export type LlmErrorKind = 'rate_limit' | 'timeout' | 'server' | 'network' | 'client' | 'aborted';
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly kind: LlmErrorKind,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+// A backend that serves chat completions. Implementations throw LlmError so the
+// fallback loop in '@/lib/llm' can tell rate limits and outages from bad requests.
+export interface LlmProvider {
+  readonly name: string;
+  complete(model: string, request: LlmRequest): Promise<string>;
+  // Yields text deltas as they arrive
+  stream(model: string, request: LlmRequest): AsyncGenerator<string>;
+}
@@ -0,0 +1,182 @@
+import { adminDb } from '@/lib/firebaseAdmin';
+import { buildChatContext, defaultContextOptions, estimateTokens } from '@/lib/chatContext';
+import { completeWithFallback, preferredModel } from '@/lib/llm';
+import { paperIngestionTimes } from '@/lib/qdrant';
+import { envInt } from '@/lib/utils';
+
+// Structured summary of a paper, generated once from its chunks and cached in Firestore
+export interface PaperSummary {
+  tldr: string;
+  problem: string;
+  method: string;
+  keyResults: string[];
+  limitations: string[];
+  datasets: string[];
+}
+
+export interface CachedPaperSummary {
+  paperId: string;
+  summary: PaperSummary;
+  model: string; // provider:model that wrote the summary
+  version: string; // Cache key: prompt version and preferred model
+  ingestedAt: string; // Ingestion the summary was built from; '' for papers ingested before this was recorded
+  createdAt: string;
+}
+
+export interface GeneratedPaperSummary {
+  summary: CachedPaperSummary;
+  tokens: number; // Estimated prompt and answer tokens, to charge the user who asked; 0 for a shared generation
+}
+
+// The model's answer wasn't a usable summary. Remembered for a while, so the same paper
+// isn't sent to the model again on every request.
+export class SummaryFormatError extends Error {
+  constructor(
+    message: string,
+    readonly tokens: number, // Spent on the failed attempt; 0 when it was remembered from an earlier one
+    readonly retryAfterSeconds: number,
+  ) {
+    super(message);
+    this.name = 'SummaryFormatError';
+  }
+}
+
+// Bump when the prompt or the PaperSummary fields change, so every summary is regenerated
+const summaryPromptVersion = 1;
+
+const failedSummaryTtlMs = 10 * 60 * 1000;
+
+// Generations in progress and recent unusable answers in this server instance, by
+// paperId, ingestion and version: concurrent first requests share one model call
+const pendingSummaries = new Map<string, Promise<GeneratedPaperSummary>>();
+const failedSummaries = new Map<string, { message: string; until: number }>();
+
+// Estimated tokens of paper text sent to the model; longer papers are summarized from
+// the passages most relevant to the summary's sections
+const summaryTokenBudget = envInt('SUMMARY_CONTEXT_TOKEN_BUDGET', 12000);
+const summaryRetrievalQuery = 'research problem and motivation; proposed method; main results and findings; limitations; datasets and benchmarks used';
+
+// Summaries live in paperSummaries/{paperId}/versions/{version}. A new version (prompt or
+// model change) gets its own document; a re-ingested paper overwrites its current one.
+function summaryVersion(): string {
+  return `v${summaryPromptVersion}:${preferredModel()}`;
+}
+
+function summaryRef(paperId: string, version: string) {
+  // Model names contain slashes, which Firestore document ids can't
+  return adminDb.collection('paperSummaries').doc(paperId).collection('versions').doc(encodeURIComponent(version));
+}
+
+// Models sometimes wrap JSON in a code fence or a sentence; take the outermost object
+function parseSummary(text: string): PaperSummary {
+  const data = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+  const field = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const list = (value: unknown) => Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+    : [];
+  const summary = {
+    tldr: field(data.tldr),
+    problem: field(data.problem),
+    method: field(data.method),
+    keyResults: list(data.keyResults),
+    limitations: list(data.limitations),
+    datasets: list(data.datasets),
+  };
+  if (!summary.tldr) throw new Error('The model returned a summary without a TL;DR.');
+  return summary;
+}
+
+async function generateSummary(paperId: string, title: string): Promise<{ summary: PaperSummary; model: string; tokens: number }> {
+  const context = await buildChatContext(paperId, summaryRetrievalQuery, 'full_document', { ...defaultContextOptions, tokenBudget: summaryTokenBudget });
+  console.log(`Summarizing paper ${paperId} from ${context.strategy} context: ${context.chunkIndexes.length} chunks, ~${context.estimatedTokens} tokens.`);
+
+  const systemPrompt = `You are an expert research assistant. Summarize the paper "${title}" from the ${context.strategy === 'full_document' ? 'full text' : 'excerpts ([...] marks omitted text)'} below.
+
+Respond with only a JSON object with these fields:
+- "tldr": one sentence on what the paper does and finds
+- "problem": the problem the paper addresses and why it matters, in 1-3 sentences
+- "method": the approach the paper proposes or uses, in 1-3 sentences
+- "keyResults": the main findings, as a list of short sentences with numbers where the paper gives them
+- "limitations": limitations stated in or evident from the text, as a list of short sentences
+- "datasets": names of the datasets and benchmarks used, as a list
+
+Use only information from the text. Use an empty string or list when the text doesn't say. Do not include the passage labels such as [C12].
+
+Paper Text:
+---
+${context.text}
+---`;
+  const userPrompt = 'Summarize this paper as JSON.';
+  const { text, model } = await completeWithFallback({
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+    temperature: 0.1,
+  });
+  const tokens = estimateTokens(systemPrompt) + estimateTokens(userPrompt) + estimateTokens(text);
+  try {
+    return { summary: parseSummary(text), model, tokens };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'The model returned an unreadable summary.';
+    throw new SummaryFormatError(message, tokens, failedSummaryTtlMs / 1000);
+  }
+}
+
+// The cached summary of one paper, if it is up to date with the paper's latest ingestion.
+// Returns null for papers with no ingested text.
+export async function getPaperSummary(paperId: string): Promise<{ cached: CachedPaperSummary | null; ingestedAt: string } | null> {
+  const [ingested, doc] = await Promise.all([paperIngestionTimes([paperId]), summaryRef(paperId, summaryVersion()).get()]);
+  const ingestedAt = ingested.get(paperId);
+  if (ingestedAt === undefined) return null;
+  const cached = doc.data() as CachedPaperSummary | undefined;
+  return { cached: cached && cached.ingestedAt === ingestedAt ? cached : null, ingestedAt };
+}
+
+// Generate and cache the summary of the paper as ingested at `ingestedAt`, for when
+// getPaperSummary has none. Requests that arrive while one is being generated wait for it
+// instead of calling the model again. Throws SummaryFormatError when the model's answer
+// (or a recent one) couldn't be read.
+export async function generatePaperSummary(paperId: string, title: string, ingestedAt: string): Promise<GeneratedPaperSummary> {
+  const version = summaryVersion();
+  const key = JSON.stringify([paperId, ingestedAt, version]);
+
+  const failed = failedSummaries.get(key);
+  if (failed && failed.until > Date.now()) {
+    throw new SummaryFormatError(failed.message, 0, Math.ceil((failed.until - Date.now()) / 1000));
+  }
+  const pending = pendingSummaries.get(key);
+  if (pending) return { summary: (await pending).summary, tokens: 0 };
+
+  const generation = (async (): Promise<GeneratedPaperSummary> => {
+    try {
+      const { summary, model, tokens } = await generateSummary(paperId, title);
+      const generated: CachedPaperSummary = { paperId, summary, model, version, ingestedAt, createdAt: new Date().toISOString() };
+      await summaryRef(paperId, version).set(generated);
+      return { summary: generated, tokens };
+    } catch (error) {
+      if (error instanceof SummaryFormatError) failedSummaries.set(key, { message: error.message, until: Date.now() + failedSummaryTtlMs });
+      throw error;
+    } finally {
+      pendingSummaries.delete(key);
+    }
+  })();
+  pendingSummaries.set(key, generation);
+  return generation;
+}
+
+// Up-to-date cached summaries of the papers, without generating missing ones
+export async function getCachedSummaries(paperIds: string[]): Promise<Map<string, CachedPaperSummary>> {
+  if (paperIds.length === 0) return new Map();
+  const version = summaryVersion();
+  const [ingested, docs] = await Promise.all([
+    paperIngestionTimes(paperIds),
+    adminDb.getAll(...paperIds.map(paperId => summaryRef(paperId, version))),
+  ]);
+  const summaries = new Map<string, CachedPaperSummary>();
+  for (const doc of docs) {
+    const cached = doc.data() as CachedPaperSummary | undefined;
+    if (cached && cached.ingestedAt === ingested.get(cached.paperId)) summaries.set(cached.paperId, cached);
+  }
+  return summaries;
+}
@@ -0,0 +1,66 @@
+import { QdrantClient } from '@qdrant/js-client-rest';
+
+// Collection holding one point per text chunk, created by lib/ingest
+export const qdrantCollectionName = 'paper_chunks';
+
+// --- Initialize Qdrant Client ---
+export const qdrantClient = new QdrantClient({
+    url: process.env.QDRANT_URL,
+    apiKey: process.env.QDRANT_API_KEY,
+});
+
+// Chunk point as stored by lib/ingest
+export interface ChunkPoint {
+    id: string | number;
+    vector?: number[];
+    payload: {
+        paperId: string;
+        chunkText: string;
+        chunkIndex: number;
+        pageNumber?: number; // Missing for chunks ingested before page numbers were stored
+        pageEnd?: number;
+        section?: string; // Heading of the section the chunk is in; missing before the first heading and for older chunks
+        charStart?: number; // Offsets of the chunk in the paper's extracted text; missing for older chunks
+        charEnd?: number;
+        ingestedAt?: string; // When the paper was last ingested; missing for chunks ingested before it was stored
+        contentHash?: string; // Hash of the PDF and chunking settings the chunks came from (see lib/ingest)
+    };
+}
+
+// Page through every chunk of one paper (Qdrant returns at most `limit` points per scroll call)
+export async function scrollPaperChunks(paperId: string, withVector = false): Promise<ChunkPoint[]> {
+    const chunks: ChunkPoint[] = [];
+    let offset: string | number | Record<string, unknown> | null | undefined = undefined;
+
+    do {
+        const { points, next_page_offset } = await qdrantClient.scroll(qdrantCollectionName, {
+            filter: { must: [{ key: 'paperId', match: { value: paperId } }] },
+            with_payload: true,
+            with_vector: withVector,
+            limit: 500,
+            offset: offset ?? undefined,
+        });
+        chunks.push(...(points as ChunkPoint[]));
+        offset = points.length > 0 ? next_page_offset : null;
+    } while (offset !== null && offset !== undefined);
+
+    return chunks;
+}
+
+// When each paper was last ingested, read from its first chunk; '' for papers ingested before
+// this was recorded. Papers without chunks are missing. Caches of generated text compare it
+// to spot re-ingested papers.
+export async function paperIngestionTimes(paperIds: string[]): Promise<Map<string, string>> {
+    const { points } = await qdrantClient.scroll(qdrantCollectionName, {
+        filter: {
+            must: [
+                { key: 'paperId', match: { any: paperIds } },
+                { key: 'chunkIndex', match: { value: 0 } },
+            ],
+        },
+        with_payload: true,
+        with_vector: false,
+        limit: paperIds.length,
+    });
+    return new Map((points as ChunkPoint[]).map(({ payload }) => [payload.paperId, payload.ingestedAt ?? '']));
+}
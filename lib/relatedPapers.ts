@@ -0,0 +1,37 @@
+import { qdrantClient, qdrantCollectionName, scrollPaperChunks } from '@/lib/qdrant';
+
+export interface RelatedPaperMatch {
+  paperId: string;
+  score: number; // Cosine similarity between the paper centroid and the best chunk of the other paper
+}
+
+// Mean of the chunk vectors, re-normalized so cosine scores stay in [-1, 1]
+function centroid(vectors: number[][]): number[] {
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, i) => { sum[i] += value; });
+  }
+  const norm = Math.sqrt(sum.reduce((acc, value) => acc + value * value, 0)) || 1;
+  return sum.map(value => value / norm);
+}
+
+// Find the papers whose chunks are closest to the centroid of this paper's chunks.
+// Returns an empty list when the paper has no chunks in Qdrant.
+export async function findRelatedPapers(paperId: string, limit: number): Promise<RelatedPaperMatch[]> {
+  const chunks = await scrollPaperChunks(paperId, true);
+  const vectors = chunks.map(chunk => chunk.vector).filter((v): v is number[] => Array.isArray(v) && v.length > 0);
+  if (vectors.length === 0) return [];
+
+  const { groups } = await qdrantClient.searchPointGroups(qdrantCollectionName, {
+    vector: centroid(vectors),
+    group_by: 'paperId',
+    group_size: 1,
+    limit,
+    with_payload: false,
+    filter: { must_not: [{ key: 'paperId', match: { value: paperId } }] },
+  });
+
+  return groups.flatMap(group => (
+    group.hits[0] ? [{ paperId: String(group.id), score: group.hits[0].score }] : []
+  ));
+}
@@ -0,0 +1,190 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { getSearchService } from '@/lib/search';
+import type { SearchFilters } from '@/lib/searchFilters';
+
+// Saved searches live in a subcollection of the user's record: users/{uid}/savedSearches/{id}
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // '*' matches every paper
+  filters: SearchFilters;
+  createdAt: string;
+  updatedAt: string;
+  matchCount: number; // Papers that matched when the search was saved, plus every new match since
+  unseenPaperIds: string[]; // Matches the user hasn't looked at yet
+}
+
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'query' | 'filters'>;
+
+// Largest batch of papers checked against a saved search in one query
+const maxPapersPerMatch = 250;
+
+function savedSearchesOf(uid: string) {
+  return adminDb.collection('users').doc(uid).collection('savedSearches');
+}
+
+// Firestore rejects undefined values, so drop unset year bounds
+function toFirestoreFilters(filters: SearchFilters): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+}
+
+function fromFirestore(id: string, data: FirebaseFirestore.DocumentData): SavedSearch {
+  return {
+    id,
+    name: data.name,
+    query: data.query,
+    filters: { categories: [], authors: [], sources: [], ...data.filters },
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+    // Searches saved before matchCount was stored kept the ids of every match instead
+    matchCount: data.matchCount ?? data.matchedPaperIds?.length ?? 0,
+    unseenPaperIds: data.unseenPaperIds || [],
+  };
+}
+
+// Which of `paperIds` (at most maxPapersPerMatch) match the saved search
+async function matchingPapers(input: Pick<SavedSearch, 'query' | 'filters'>, paperIds: string[]): Promise<string[]> {
+  const result = await getSearchService().search({
+    query: input.query,
+    filters: input.filters,
+    page: 1,
+    perPage: maxPapersPerMatch,
+    sortBy: 'relevance',
+    paperIds,
+  });
+  return result.hits.map(hit => hit.document.id);
+}
+
+// Number of papers currently matching the saved search
+async function countMatches(input: Pick<SavedSearch, 'query' | 'filters'>): Promise<number> {
+  const result = await getSearchService().search({ query: input.query, filters: input.filters, page: 1, perPage: 1, sortBy: 'relevance' });
+  return result.found;
+}
+
+export async function listSavedSearches(uid: string): Promise<SavedSearch[]> {
+  const snapshot = await savedSearchesOf(uid).orderBy('createdAt', 'desc').get();
+  return snapshot.docs.map(doc => fromFirestore(doc.id, doc.data()));
+}
+
+export async function getSavedSearch(uid: string, id: string): Promise<SavedSearch | null> {
+  const doc = await savedSearchesOf(uid).doc(id).get();
+  return doc.exists ? fromFirestore(doc.id, doc.data()!) : null;
+}
+
+// Only papers added to the index after the search is saved alert; matchNewPapers is only
+// given papers that are new to the index, so nothing is stored per matching paper
+export async function createSavedSearch(uid: string, input: SavedSearchInput): Promise<SavedSearch> {
+  const now = new Date().toISOString();
+  const matchCount = await countMatches(input);
+  const ref = await savedSearchesOf(uid).add({
+    name: input.name,
+    query: input.query,
+    filters: toFirestoreFilters(input.filters),
+    createdAt: now,
+    updatedAt: now,
+    matchCount,
+    unseenPaperIds: [],
+  });
+  return fromFirestore(ref.id, (await ref.get()).data()!);
+}
+
+// Changing the query or filters recounts the matches and clears the unseen ones
+export async function updateSavedSearch(uid: string, id: string, input: Partial<SavedSearchInput>): Promise<SavedSearch | null> {
+  const existing = await getSavedSearch(uid, id);
+  if (!existing) return null;
+
+  const next = { ...existing, ...input };
+  const searchChanged = input.query !== undefined || input.filters !== undefined;
+  await savedSearchesOf(uid).doc(id).update({
+    name: next.name,
+    query: next.query,
+    filters: toFirestoreFilters(next.filters),
+    updatedAt: new Date().toISOString(),
+    ...(searchChanged && { matchCount: await countMatches(next), unseenPaperIds: [], matchedPaperIds: FieldValue.delete() }),
+  });
+  return getSavedSearch(uid, id);
+}
+
+export async function deleteSavedSearch(uid: string, id: string): Promise<boolean> {
+  const ref = savedSearchesOf(uid).doc(id);
+  if (!(await ref.get()).exists) return false;
+  await ref.delete();
+  return true;
+}
+
+export async function markSavedSearchSeen(uid: string, id: string): Promise<boolean> {
+  const ref = savedSearchesOf(uid).doc(id);
+  if (!(await ref.get()).exists) return false;
+  await ref.update({ unseenPaperIds: [] });
+  return true;
+}
+
+// Check papers new to the index against every user's saved searches and record their
+// matches as unseen. Callers pass each paper once, when it is first indexed; re-ingesting a
+// changed PDF is not news. Returns the number of saved searches that gained a match.
+export async function matchNewPapers(paperIds: string[]): Promise<number> {
+  if (paperIds.length === 0) return 0;
+  const snapshot = await adminDb.collectionGroup('savedSearches').get();
+  let alerted = 0;
+
+  for (const doc of snapshot.docs) {
+    const savedSearch = fromFirestore(doc.id, doc.data());
+    const newMatches: string[] = [];
+    for (let i = 0; i < paperIds.length; i += maxPapersPerMatch) {
+      const batch = paperIds.slice(i, i + maxPapersPerMatch);
+      const matches = await matchingPapers(savedSearch, batch);
+      // A retried notification can repeat papers the user hasn't seen yet
+      newMatches.push(...matches.filter(id => !savedSearch.unseenPaperIds.includes(id)));
+    }
+    if (newMatches.length === 0) continue;
+
+    await doc.ref.update({
+      matchCount: FieldValue.increment(newMatches.length),
+      unseenPaperIds: FieldValue.arrayUnion(...newMatches),
+      matchedPaperIds: FieldValue.delete(), // Replaced by matchCount; older searches may still have it
+    });
+    alerted++;
+  }
+
+  return alerted;
+}
+
+// Validate a request body into saved search fields. Returns an error message for bad input.
+export function parseSavedSearchInput(body: unknown, partial = false): Partial<SavedSearchInput> | string {
+  if (!body || typeof body !== 'object') return 'Request body must be a JSON object';
+  const { name, query, filters } = body as Record<string, unknown>;
+  const input: Partial<SavedSearchInput> = {};
+
+  if (query !== undefined) {
+    if (typeof query !== 'string' || !query.trim()) return '"query" must be a non-empty string';
+    input.query = query.trim();
+  } else if (!partial) {
+    input.query = '*';
+  }
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) return '"name" must be a non-empty string';
+    input.name = name.trim();
+  } else if (!partial) {
+    input.name = input.query;
+  }
+
+  if (filters !== undefined) {
+    if (!filters || typeof filters !== 'object') return '"filters" must be an object';
+    const f = filters as Record<string, unknown>;
+    const strings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []);
+    const year = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+    input.filters = {
+      categories: strings(f.categories),
+      authors: strings(f.authors),
+      sources: strings(f.sources),
+      yearFrom: year(f.yearFrom),
+      yearTo: year(f.yearTo),
+    };
+  } else if (!partial) {
+    input.filters = { categories: [], authors: [], sources: [] };
+  }
+
+  return input;
+}
@@ -0,0 +1,17 @@
+import { MemorySearchService } from './memory';
+import { TypesenseSearchService } from './typesense';
+import type { SearchService } from './types';
+
+export type { PaperDocument, SearchHit, SearchRequest, SearchResult, SearchService } from './types';
+
+let service: SearchService | null = null;
+
+// Pick the backend from SEARCH_BACKEND: 'typesense' (default) or 'memory'
+export function getSearchService(): SearchService {
+  if (!service) {
+    service = process.env.SEARCH_BACKEND === 'memory'
+      ? new MemorySearchService()
+      : new TypesenseSearchService();
+  }
+  return service;
+}
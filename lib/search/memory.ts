@@ -0,0 +1,223 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { HighlightSegment, PaperHighlights } from '@/lib/highlights';
+import { emptyFilters, facetFields, type FacetCounts, type FacetField, type SearchFilters, type SortOption, type Suggestion } from '@/lib/searchFilters';
+import type { PaperDocument, SearchRequest, SearchResult, SearchService } from './types';
+
+// Seed data: the same metadata file scripts/ingest.mjs reads
+const metadataFilePath = path.join(process.cwd(), 'public/pdfs/metadata.json');
+const maxFacetValues = 20;
+const snippetWordsBefore = 12; // Words kept before the first match in an abstract snippet
+const snippetWords = 40; // Total words in an abstract snippet
+
+// Relative weight of a query token matching each field
+const fieldWeights = { title: 3, authors: 2, abstract: 1 } as const;
+
+const wordPattern = /([\p{L}\p{N}]+)/u;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Every query token must match a word; the last one may be a prefix (the user is still typing)
+function tokenMatches(word: string, token: string, isLast: boolean): boolean {
+  return isLast ? word.startsWith(token) : word === token;
+}
+
+function matchesFilters(doc: PaperDocument, filters: SearchFilters, exclude?: FacetField): boolean {
+  if (exclude !== 'categories' && filters.categories.length > 0 && !filters.categories.some(c => doc.categories.includes(c))) return false;
+  if (exclude !== 'authors' && filters.authors.length > 0 && !filters.authors.some(a => doc.authors.includes(a))) return false;
+  if (exclude !== 'source' && filters.sources.length > 0 && !filters.sources.includes(doc.source)) return false;
+  if (exclude !== 'year') {
+    if (filters.yearFrom !== undefined && doc.year < filters.yearFrom) return false;
+    if (filters.yearTo !== undefined && doc.year > filters.yearTo) return false;
+  }
+  return true;
+}
+
+// Split text into words and separators, marking the words that match a query token
+function highlightText(text: string, tokens: string[]): HighlightSegment[] {
+  return text.split(wordPattern).filter(Boolean).map(part => {
+    const word = part.toLowerCase();
+    const match = wordPattern.test(part) && tokens.some((token, i) => tokenMatches(word, token, i === tokens.length - 1));
+    return { text: part, match };
+  });
+}
+
+// Join neighbouring segments with the same match flag
+function mergeSegments(segments: HighlightSegment[]): HighlightSegment[] {
+  return segments.reduce<HighlightSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.match === segment.match) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+// Keep a window of words around the first match, like Typesense's abstract snippets
+function snippet(segments: HighlightSegment[]): HighlightSegment[] {
+  const first = segments.findIndex(s => s.match);
+  // Segments alternate word/separator, so double the word counts
+  const start = Math.max(0, first - snippetWordsBefore * 2);
+  return segments.slice(start, start + snippetWords * 2);
+}
+
+function valueCounts(values: (string | number)[]): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(String(value), (counts.get(String(value)) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, maxFacetValues);
+}
+
+function facetValues(doc: PaperDocument, field: FacetField): (string | number)[] {
+  if (field === 'categories') return doc.categories;
+  if (field === 'authors') return doc.authors;
+  if (field === 'year') return [doc.year];
+  return [doc.source];
+}
+
+function compareBy(sortBy: SortOption) {
+  return (a: { doc: PaperDocument; score: number }, b: { doc: PaperDocument; score: number }) => {
+    if (sortBy === 'year_desc') return b.doc.year - a.doc.year || b.score - a.score;
+    if (sortBy === 'year_asc') return a.doc.year - b.doc.year || b.score - a.score;
+    return b.score - a.score || b.doc.year - a.doc.year;
+  };
+}
+
+// In-process search over paper metadata, for running locally without a Typesense server.
+// Seeded from public/pdfs/metadata.json; upserts live only as long as the server process.
+export class MemorySearchService implements SearchService {
+  private papers: Promise<Map<string, PaperDocument>> | null = null;
+
+  private load(): Promise<Map<string, PaperDocument>> {
+    if (!this.papers) {
+      this.papers = fs.readFile(metadataFilePath, 'utf-8')
+        .then(content => {
+          const metadataMap = JSON.parse(content) as Record<string, Partial<PaperDocument>>;
+          return new Map(Object.entries(metadataMap).map(([id, meta]) => [id, {
+            id,
+            title: meta.title || `Title for ${id}`,
+            abstract: meta.abstract || '',
+            authors: meta.authors || [],
+            categories: meta.categories || [],
+            year: meta.year || 0,
+            pdfUrl: meta.pdfUrl || `/pdfs/${id}.pdf`,
+            source: meta.source || 'upload',
+            ...(meta.arxivId ? { arxivId: meta.arxivId, arxivVersion: meta.arxivVersion } : {}),
+          }]));
+        })
+        .catch(error => {
+          console.warn('Warning: Could not load metadata.json for the in-memory search backend.', error.message);
+          return new Map<string, PaperDocument>();
+        });
+    }
+    return this.papers;
+  }
+
+  // Score a paper against the query tokens; null when some token has no match
+  private score(doc: PaperDocument, tokens: string[]): number | null {
+    if (tokens.length === 0) return 0;
+    const fieldTokens = {
+      title: tokenize(doc.title),
+      authors: tokenize(doc.authors.join(' ')),
+      abstract: tokenize(doc.abstract),
+    };
+    let total = 0;
+    for (const [i, token] of tokens.entries()) {
+      const isLast = i === tokens.length - 1;
+      const weights = (Object.keys(fieldWeights) as (keyof typeof fieldWeights)[])
+        .filter(field => fieldTokens[field].some(word => tokenMatches(word, token, isLast)))
+        .map(field => fieldWeights[field]);
+      if (weights.length === 0) return null;
+      total += Math.max(...weights);
+    }
+    return total;
+  }
+
+  private async matching(query: string, filters: SearchFilters, exclude?: FacetField) {
+    const tokens = query === '*' ? [] : tokenize(query);
+    const papers = await this.load();
+    return [...papers.values()].flatMap(doc => {
+      if (!matchesFilters(doc, filters, exclude)) return [];
+      const score = this.score(doc, tokens);
+      return score === null ? [] : [{ doc, score }];
+    });
+  }
+
+  private highlights(doc: PaperDocument, tokens: string[]): PaperHighlights | undefined {
+    if (tokens.length === 0) return undefined;
+    const result: PaperHighlights = {};
+    const title = highlightText(doc.title, tokens);
+    if (title.some(s => s.match)) result.title = mergeSegments(title);
+    const abstract = highlightText(doc.abstract, tokens);
+    if (abstract.some(s => s.match)) result.abstract = mergeSegments(snippet(abstract));
+    const authors = doc.authors.map(author => highlightText(author, tokens)).filter(a => a.some(s => s.match));
+    if (authors.length > 0) result.authors = authors.map(mergeSegments);
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  async getPaper(id: string): Promise<PaperDocument | null> {
+    return (await this.load()).get(id) ?? null;
+  }
+
+  async getPapers(ids: string[], filters: SearchFilters = emptyFilters): Promise<PaperDocument[]> {
+    const papers = await this.load();
+    return ids.flatMap(id => {
+      const doc = papers.get(id);
+      return doc && matchesFilters(doc, filters) ? [doc] : [];
+    });
+  }
+
+  async search({ query, filters, page, perPage, sortBy, paperIds }: SearchRequest): Promise<SearchResult> {
+    const tokens = query === '*' ? [] : tokenize(query);
+    const matches = (await this.matching(query, filters))
+      .filter(({ doc }) => !paperIds || paperIds.includes(doc.id))
+      .sort(compareBy(sortBy));
+    return {
+      found: matches.length,
+      hits: matches.slice((page - 1) * perPage, page * perPage).map(({ doc }) => ({
+        document: doc,
+        highlights: this.highlights(doc, tokens),
+      })),
+    };
+  }
+
+  async facets(query: string, filters: SearchFilters, disjunctive = true): Promise<FacetCounts> {
+    const entries = await Promise.all(facetFields.map(async field => {
+      const matches = await this.matching(query, filters, disjunctive ? field : undefined);
+      return [field, valueCounts(matches.flatMap(({ doc }) => facetValues(doc, field)))] as const;
+    }));
+    return Object.fromEntries(entries) as FacetCounts;
+  }
+
+  async suggest(prefix: string, limit: number): Promise<Suggestion[]> {
+    const needle = prefix.trim().toLowerCase();
+    if (!needle) return [];
+    const papers = [...(await this.load()).values()];
+    // A value matches when it, or one of its words, starts with the typed prefix
+    const matchesPrefix = (value: string) =>
+      value.toLowerCase().startsWith(needle) || tokenize(value).some(word => word.startsWith(needle));
+
+    const titles = papers
+      .filter(doc => matchesPrefix(doc.title))
+      .slice(0, limit)
+      .map(doc => ({ type: 'title' as const, value: doc.title, paperId: doc.id }));
+    const authors = valueCounts(papers.flatMap(doc => doc.authors).filter(matchesPrefix)).slice(0, limit);
+    const categories = valueCounts(papers.flatMap(doc => doc.categories).filter(matchesPrefix)).slice(0, limit);
+
+    return [
+      ...titles,
+      ...authors.map(v => ({ type: 'author' as const, ...v })),
+      ...categories.map(v => ({ type: 'category' as const, ...v })),
+    ];
+  }
+
+  async upsert(document: PaperDocument): Promise<void> {
+    (await this.load()).set(document.id, document);
+  }
+}
@@ -0,0 +1,52 @@
+import type { PaperHighlights } from '@/lib/highlights';
+import type { FacetCounts, SearchFilters, SortOption, Suggestion } from '@/lib/searchFilters';
+
+// Paper metadata as stored in the 'papers' collection (see lib/ingest/collections.ts)
+export interface PaperDocument {
+  id: string;
+  title: string;
+  abstract: string;
+  authors: string[];
+  categories: string[];
+  year: number;
+  pdfUrl: string;
+  source: string;
+  arxivId?: string; // Papers imported from arXiv; old-style ids contain a slash, so they differ from `id`
+  arxivVersion?: number;
+  uploadedBy?: string; // uid of the user who uploaded the paper through the app
+}
+
+export interface SearchRequest {
+  query: string; // '*' matches every paper
+  filters: SearchFilters;
+  page: number; // 1-based
+  perPage: number;
+  sortBy: SortOption;
+  paperIds?: string[]; // Restrict the search to these papers, e.g. ones just ingested
+}
+
+export interface SearchHit {
+  document: PaperDocument;
+  highlights?: PaperHighlights;
+}
+
+export interface SearchResult {
+  found: number;
+  hits: SearchHit[];
+}
+
+// Backend-agnostic access to paper metadata. Routes depend on this interface and
+// get an implementation from getSearchService() in '@/lib/search'.
+export interface SearchService {
+  // Returns null when the paper does not exist
+  getPaper(id: string): Promise<PaperDocument | null>;
+  // Papers for the given ids that pass the filters, in no particular order
+  getPapers(ids: string[], filters?: SearchFilters): Promise<PaperDocument[]>;
+  search(request: SearchRequest): Promise<SearchResult>;
+  // Facet counts for the matching papers. By default they are disjunctive: each field is
+  // counted with every filter except its own. Pass disjunctive=false to count within the
+  // filtered set, e.g. co-authors of an author.
+  facets(query: string, filters: SearchFilters, disjunctive?: boolean): Promise<FacetCounts>;
+  suggest(prefix: string, limit: number): Promise<Suggestion[]>;
+  upsert(document: PaperDocument): Promise<void>;
+}
@@ -0,0 +1,166 @@
+import Typesense from 'typesense';
+import type { SearchResponse } from 'typesense/lib/Typesense/Documents';
+import { highlightEndTag, highlightStartTag, toPaperHighlights } from '@/lib/highlights';
+import { buildFilterBy, emptyFilters, facetFields, sortOptions, type FacetCounts, type FacetField, type SearchFilters, type Suggestion } from '@/lib/searchFilters';
+import type { PaperDocument, SearchRequest, SearchResult, SearchService } from './types';
+
+export const collectionName = 'papers'; // Collection created by lib/ingest
+const queryBy = 'title,abstract,authors'; // Fields to search within
+const maxFacetValues = 20; // Number of values returned per facet field
+const maxPerPage = 250; // Most hits Typesense returns per page
+
+// Backticks let Typesense match ids containing special characters
+function idFilter(ids: string[]): string {
+  return `id:[${ids.map(id => '`' + id.replace(/`/g, '') + '`').join(',')}]`;
+}
+
+// Convert Typesense facet_counts into a plain { field: [{ value, count }] } map
+function toFacetCounts(results: SearchResponse<object>[]): FacetCounts {
+  const facets: FacetCounts = { categories: [], authors: [], year: [], source: [] };
+  for (const result of results) {
+    for (const facet of result.facet_counts || []) {
+      const field = facet.field_name as FacetField;
+      facets[field] = facet.counts.map(c => ({ value: c.value, count: c.count }));
+    }
+  }
+  return facets;
+}
+
+// Initialize Typesense Client (Server-Side)
+// Use Admin key on the server; it is never sent to the browser
+export function createTypesenseClient() {
+  return new Typesense.Client({
+    nodes: [{
+      host: process.env.NEXT_PUBLIC_TYPESENSE_HOST || '',
+      port: parseInt(process.env.NEXT_PUBLIC_TYPESENSE_PORT || '443', 10),
+      protocol: process.env.NEXT_PUBLIC_TYPESENSE_PROTOCOL || 'https',
+    }],
+    apiKey: process.env.TYPESENSE_ADMIN_API_KEY || '',
+    connectionTimeoutSeconds: 10,
+  });
+}
+
+export class TypesenseSearchService implements SearchService {
+  private client = createTypesenseClient();
+
+  private documents() {
+    return this.client.collections(collectionName).documents();
+  }
+
+  async getPaper(id: string): Promise<PaperDocument | null> {
+    try {
+      return await this.client.collections(collectionName).documents(id).retrieve() as PaperDocument;
+    } catch (error) {
+      if ((error as { httpStatus?: number }).httpStatus === 404) return null;
+      throw error;
+    }
+  }
+
+  async getPapers(ids: string[], filters: SearchFilters = emptyFilters): Promise<PaperDocument[]> {
+    const filterBy = buildFilterBy(filters);
+    const documents: PaperDocument[] = [];
+    for (let i = 0; i < ids.length; i += maxPerPage) {
+      const batch = ids.slice(i, i + maxPerPage);
+      const results = await this.documents().search({
+        'q': '*',
+        'query_by': queryBy,
+        'per_page': batch.length,
+        'filter_by': filterBy ? `${idFilter(batch)} && ${filterBy}` : idFilter(batch),
+      });
+      documents.push(...(results.hits || []).map(hit => hit.document as PaperDocument));
+    }
+    return documents;
+  }
+
+  async search({ query, filters, page, perPage, sortBy, paperIds }: SearchRequest): Promise<SearchResult> {
+    const filterBy = [paperIds && idFilter(paperIds), buildFilterBy(filters)].filter(Boolean).join(' && ');
+    const results = await this.documents().search({
+      'q': query,
+      'query_by': queryBy,
+      'page': page,
+      'per_page': perPage,
+      'sort_by': sortOptions[sortBy].sortBy,
+      'filter_by': filterBy,
+      'highlight_fields': queryBy,
+      'highlight_full_fields': 'title,authors', // Abstracts are returned as a snippet around the match
+      'highlight_start_tag': highlightStartTag,
+      'highlight_end_tag': highlightEndTag,
+    });
+
+    return {
+      found: results.found,
+      hits: (results.hits || []).map(hit => ({
+        document: hit.document as PaperDocument,
+        highlights: toPaperHighlights(hit.highlight as Record<string, unknown>),
+      })),
+    };
+  }
+
+  async facets(query: string, filters: SearchFilters, disjunctive = true): Promise<FacetCounts> {
+    // Fields with an active filter get their counts from a separate query that ignores
+    // their own clause, so selecting cs.LG still shows how many cs.CL papers there are.
+    const filterBy = buildFilterBy(filters);
+    const filteredFields = disjunctive
+      ? facetFields.filter(field => buildFilterBy(filters, field) !== filterBy)
+      : [];
+    const unfilteredFields = facetFields.filter(field => !filteredFields.includes(field));
+
+    const facetQuery = (fields: readonly FacetField[], fieldFilterBy: string) => this.documents().search({
+      'q': query,
+      'query_by': queryBy,
+      'per_page': 0,
+      'filter_by': fieldFilterBy,
+      'facet_by': fields.join(','),
+      'max_facet_values': maxFacetValues,
+    });
+
+    const results = await Promise.all([
+      ...(unfilteredFields.length > 0 ? [facetQuery(unfilteredFields, filterBy)] : []),
+      ...filteredFields.map(field => facetQuery([field], buildFilterBy(filters, field))),
+    ]);
+    return toFacetCounts(results);
+  }
+
+  async suggest(prefix: string, limit: number): Promise<Suggestion[]> {
+    // Strip characters that have a meaning inside Typesense facet_query
+    const clean = prefix.replace(/[:`,]/g, ' ').trim();
+    if (!clean) return [];
+
+    // Titles come from a prefix search; authors and categories from facet_query, which
+    // matches facet values by prefix and returns how many papers have each value.
+    const facetSearch = (field: FacetField) => this.documents().search({
+      'q': '*',
+      'per_page': 0,
+      'facet_by': field,
+      'facet_query': `${field}:${clean}`,
+      'max_facet_values': limit,
+    });
+    const [titleResults, authorResults, categoryResults] = await Promise.all([
+      this.documents().search({
+        'q': clean,
+        'query_by': 'title',
+        'prefix': true,
+        'per_page': limit,
+        'include_fields': 'id,title',
+      }),
+      facetSearch('authors'),
+      facetSearch('categories'),
+    ]);
+
+    const facetValues = (results: SearchResponse<object>) =>
+      results.facet_counts?.[0]?.counts.map(c => ({ value: c.value, count: c.count })) || [];
+
+    return [
+      ...(titleResults.hits || []).map(hit => {
+        const doc = hit.document as { id: string; title: string };
+        return { type: 'title' as const, value: doc.title, paperId: doc.id };
+      }),
+      ...facetValues(authorResults).map(v => ({ type: 'author' as const, ...v })),
+      ...facetValues(categoryResults).map(v => ({ type: 'category' as const, ...v })),
+    ];
+  }
+
+  async upsert(document: PaperDocument): Promise<void> {
+    await this.documents().upsert(document);
+  }
+}
@@ -0,0 +1,100 @@
+// Search filters shared by the /api/papers/search route and the home page.
+// Kept free of server-only imports so the client can build query strings with it.
+
+export interface SearchFilters {
+  categories: string[];
+  authors: string[];
+  sources: string[];
+  yearFrom?: number;
+  yearTo?: number;
+}
+
+// Facet fields declared in the Typesense 'papers' schema (see lib/ingest/collections.ts)
+export const facetFields = ['categories', 'authors', 'year', 'source'] as const;
+export type FacetField = typeof facetFields[number];
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+export type FacetCounts = Record<FacetField, FacetCount[]>;
+
+export const emptyFilters: SearchFilters = { categories: [], authors: [], sources: [] };
+
+function parseYear(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const year = parseInt(value, 10);
+  return Number.isFinite(year) ? year : undefined;
+}
+
+// Read filters from URL params: ?category=cs.LG&category=cs.CL&author=...&source=...&yearFrom=2017&yearTo=2020
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const clean = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+  return {
+    categories: clean(params.getAll('category')),
+    authors: clean(params.getAll('author')),
+    sources: clean(params.getAll('source')),
+    yearFrom: parseYear(params.get('yearFrom')),
+    yearTo: parseYear(params.get('yearTo')),
+  };
+}
+
+// Inverse of parseSearchFilters, used by the client to build request URLs
+export function appendSearchFilters(params: URLSearchParams, filters: SearchFilters): URLSearchParams {
+  filters.categories.forEach(c => params.append('category', c));
+  filters.authors.forEach(a => params.append('author', a));
+  filters.sources.forEach(s => params.append('source', s));
+  if (filters.yearFrom !== undefined) params.set('yearFrom', String(filters.yearFrom));
+  if (filters.yearTo !== undefined) params.set('yearTo', String(filters.yearTo));
+  return params;
+}
+
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return filters.categories.length > 0 || filters.authors.length > 0 || filters.sources.length > 0
+    || filters.yearFrom !== undefined || filters.yearTo !== undefined;
+}
+
+// Backticks let Typesense match values containing commas, spaces or colons
+function quote(value: string): string {
+  return '`' + value.replace(/`/g, '') + '`';
+}
+
+// Build a Typesense filter_by expression. Values within a field are OR'ed, fields are AND'ed.
+// `exclude` drops one field's clause, used to compute disjunctive facet counts for that field.
+export function buildFilterBy(filters: SearchFilters, exclude?: FacetField): string {
+  const clauses: string[] = [];
+  if (exclude !== 'categories' && filters.categories.length > 0) {
+    clauses.push(`categories:=[${filters.categories.map(quote).join(',')}]`);
+  }
+  if (exclude !== 'authors' && filters.authors.length > 0) {
+    clauses.push(`authors:=[${filters.authors.map(quote).join(',')}]`);
+  }
+  if (exclude !== 'source' && filters.sources.length > 0) {
+    clauses.push(`source:=[${filters.sources.map(quote).join(',')}]`);
+  }
+  if (exclude !== 'year') {
+    if (filters.yearFrom !== undefined) clauses.push(`year:>=${filters.yearFrom}`);
+    if (filters.yearTo !== undefined) clauses.push(`year:<=${filters.yearTo}`);
+  }
+  return clauses.join(' && ');
+}
+
+// Sort options accepted by /api/papers/search?sort_by=...
+export const sortOptions = {
+  relevance: { label: 'Relevance', sortBy: '_text_match:desc,year:desc' },
+  year_desc: { label: 'Newest first', sortBy: 'year:desc,_text_match:desc' },
+  year_asc: { label: 'Oldest first', sortBy: 'year:asc,_text_match:desc' },
+} as const;
+export type SortOption = keyof typeof sortOptions;
+
+export function parseSortOption(value: string | null): SortOption {
+  return value && Object.hasOwn(sortOptions, value) ? value as SortOption : 'relevance';
+}
+
+// Typeahead entry returned by /api/papers/suggest
+export interface Suggestion {
+  type: 'title' | 'author' | 'category';
+  value: string;
+  paperId?: string; // Set for title suggestions
+  count?: number; // Number of papers, set for author and category suggestions
+}
@@ -0,0 +1,22 @@
+import { adminAuth } from '@/lib/firebaseAdmin';
+
+export interface AuthenticatedUser {
+  uid: string;
+  email?: string;
+}
+
+// Verify the Firebase ID token sent as "Authorization: Bearer <token>".
+// Returns null when the header is missing or the token is invalid or expired.
+export async function getAuthenticatedUser(request: Request): Promise<AuthenticatedUser | null> {
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) return null;
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(match[1]);
+    return { uid: decoded.uid, email: decoded.email };
+  } catch (error) {
+    console.warn('Rejected Firebase ID token:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,51 @@
+// Minimal server-sent events helpers, shared by the chat route (reading OpenRouter's stream,
+// writing our own) and the paper page (reading the chat route's stream).
+
+export interface ServerSentEvent {
+  event: string; // 'message' when the event has no `event:` line
+  data: string;
+}
+
+// Serialize one event; data is JSON-encoded so it never contains a newline
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith(':')) continue; // Comment, e.g. OpenRouter's keep-alive ": OPENROUTER PROCESSING"
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+// Yield events from a streamed response body as they arrive
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const event = parseEvent(block);
+        if (event) yield event;
+      }
+    }
+    const last = parseEvent(buffer + decoder.decode());
+    if (last) yield last;
+  } finally {
+    // Stops the upstream body too when the caller breaks out early (no-op once it has ended)
+    reader.cancel().catch(() => {});
+  }
+}
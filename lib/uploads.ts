@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { adminStorage } from '@/lib/firebaseAdmin';
+
+// PDFs uploaded through /api/papers/upload, served by /api/papers/[paperId]/pdf. They are
+// stored in the Firebase Storage bucket FIREBASE_STORAGE_BUCKET when it is set. Otherwise
+// they go to a local directory (outside public/, which Next only serves as of build time),
+// which only lasts on a long-running Node server: serverless filesystems are read-only or
+// wiped between invocations.
+const storageBucket = process.env.FIREBASE_STORAGE_BUCKET;
+const uploadsDir = process.env.UPLOADS_DIR || path.join(process.cwd(), 'uploads');
+
+// False on Vercel without a bucket, where a local file wouldn't outlive the request
+export function uploadsEnabled(): boolean {
+  return Boolean(storageBucket) || !process.env.VERCEL;
+}
+
+// Uploads are keyed by their content, so the same PDF uploaded twice is one paper
+export function uploadedPaperId(pdf: Buffer): string {
+  return `upload-${createHash('sha256').update(pdf).digest('hex').slice(0, 20)}`;
+}
+
+export function uploadedPdfUrl(paperId: string): string {
+  return `/api/papers/${encodeURIComponent(paperId)}/pdf`;
+}
+
+// Only ids made by uploadedPaperId map to a file, so a paper id can't point outside the uploads
+function uploadedPdfName(paperId: string): string | null {
+  return /^upload-[0-9a-f]+$/.test(paperId) ? `${paperId}.pdf` : null;
+}
+
+function bucketFile(name: string) {
+  return adminStorage.bucket(storageBucket).file(`uploads/${name}`);
+}
+
+export async function saveUploadedPdf(paperId: string, pdf: Buffer): Promise<void> {
+  const name = uploadedPdfName(paperId);
+  if (!name) throw new Error(`Invalid upload id: ${paperId}`);
+  if (storageBucket) {
+    await bucketFile(name).save(pdf, { contentType: 'application/pdf', resumable: false });
+    return;
+  }
+  await fs.mkdir(uploadsDir, { recursive: true });
+  await fs.writeFile(path.join(uploadsDir, name), pdf);
+}
+
+// Returns null when there is no uploaded PDF with this id
+export async function readUploadedPdf(paperId: string): Promise<Buffer | null> {
+  const name = uploadedPdfName(paperId);
+  if (!name) return null;
+  try {
+    if (storageBucket) return (await bucketFile(name).download())[0];
+    return await fs.readFile(path.join(uploadsDir, name));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || (error as { code?: unknown }).code === 404) return null;
+    throw error;
+  }
+}
+
+export async function deleteUploadedPdf(paperId: string): Promise<void> {
+  const name = uploadedPdfName(paperId);
+  if (!name) return;
+  if (storageBucket) {
+    await bucketFile(name).delete({ ignoreNotFound: true });
+    return;
+  }
+  await fs.rm(path.join(uploadsDir, name), { force: true });
+}
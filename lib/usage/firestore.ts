@@ -0,0 +1,30 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { applyHit } from './slidingWindow';
+import type { UsageStore, WindowResult } from './types';
+
+// Counters in Firestore, shared by every server instance:
+//   usageWindows/{key}          { hits: number[] } request times in the current window
+//   usageDaily/{key}:{day}      { total: number }
+export class FirestoreUsageStore implements UsageStore {
+  async hit(key: string, limit: number, windowMs: number, now: number): Promise<WindowResult> {
+    const ref = adminDb.collection('usageWindows').doc(key);
+    return adminDb.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      const { hits, result } = applyHit((doc.data()?.hits || []) as number[], limit, windowMs, now);
+      transaction.set(ref, { hits });
+      return result;
+    });
+  }
+
+  async addToDailyCounter(key: string, day: string, amount: number): Promise<number> {
+    const ref = adminDb.collection('usageDaily').doc(`${key}:${day}`);
+    await ref.set({ total: FieldValue.increment(amount) }, { merge: true });
+    return this.getDailyCounter(key, day);
+  }
+
+  async getDailyCounter(key: string, day: string): Promise<number> {
+    const doc = await adminDb.collection('usageDaily').doc(`${key}:${day}`).get();
+    return doc.data()?.total ?? 0;
+  }
+}
@@ -0,0 +1,17 @@
+import { FirestoreUsageStore } from './firestore';
+import { MemoryUsageStore } from './memory';
+import type { UsageStore } from './types';
+
+export type { UsageStore, WindowResult } from './types';
+
+let store: UsageStore | null = null;
+
+// Pick the backend from USAGE_STORE: 'firestore' (default) or 'memory'
+export function getUsageStore(): UsageStore {
+  if (!store) {
+    store = process.env.USAGE_STORE === 'memory'
+      ? new MemoryUsageStore()
+      : new FirestoreUsageStore();
+  }
+  return store;
+}
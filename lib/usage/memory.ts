@@ -0,0 +1,27 @@
+import { applyHit } from './slidingWindow';
+import type { UsageStore, WindowResult } from './types';
+
+// Counters in process memory, for local development: they reset on restart and aren't
+// shared between server instances.
+export class MemoryUsageStore implements UsageStore {
+  private hits = new Map<string, number[]>();
+  private dailyCounters = new Map<string, { day: string; total: number }>();
+
+  async hit(key: string, limit: number, windowMs: number, now: number): Promise<WindowResult> {
+    const { hits, result } = applyHit(this.hits.get(key) ?? [], limit, windowMs, now);
+    this.hits.set(key, hits);
+    return result;
+  }
+
+  // Only the current day is kept per key
+  async addToDailyCounter(key: string, day: string, amount: number): Promise<number> {
+    const total = (await this.getDailyCounter(key, day)) + amount;
+    this.dailyCounters.set(key, { day, total });
+    return total;
+  }
+
+  async getDailyCounter(key: string, day: string): Promise<number> {
+    const counter = this.dailyCounters.get(key);
+    return counter?.day === day ? counter.total : 0;
+  }
+}
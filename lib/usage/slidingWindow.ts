@@ -0,0 +1,17 @@
+import type { WindowResult } from './types';
+
+// Apply one request to a sliding-window log of request times (ms). Returns the times to
+// store, which drop those that left the window and include `now` when the request is allowed.
+export function applyHit(hits: number[], limit: number, windowMs: number, now: number): { hits: number[]; result: WindowResult } {
+  const inWindow = hits.filter(time => time > now - windowMs).sort((a, b) => a - b);
+  if (inWindow.length >= limit) {
+    return {
+      hits: inWindow,
+      result: { allowed: false, remaining: 0, retryAfterMs: inWindow[inWindow.length - limit] + windowMs - now },
+    };
+  }
+  return {
+    hits: [...inWindow, now],
+    result: { allowed: true, remaining: limit - inWindow.length - 1, retryAfterMs: 0 },
+  };
+}
@@ -0,0 +1,16 @@
+// Outcome of counting a request against a sliding-window rate limit
+export interface WindowResult {
+  allowed: boolean;
+  remaining: number; // Requests left in the window after this one
+  retryAfterMs: number; // 0 when allowed; otherwise until the oldest request in the window expires
+}
+
+// Storage for usage counters. Callers depend on this interface and get an implementation
+// from getUsageStore() in '@/lib/usage'.
+export interface UsageStore {
+  // Sliding-window log: record a request unless `limit` requests already fall within the last `windowMs`
+  hit(key: string, limit: number, windowMs: number, now: number): Promise<WindowResult>;
+  // Counter that starts from zero each `day` (YYYY-MM-DD); returns the new total
+  addToDailyCounter(key: string, day: string, amount: number): Promise<number>;
+  getDailyCounter(key: string, day: string): Promise<number>;
+}
@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Non-negative integer setting from the environment
+export function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
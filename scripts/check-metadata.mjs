@@ -0,0 +1,114 @@
+// Check the PDF metadata extractor against the papers in metadata.json: every field it
+// gets wrong must score below the review threshold, so the ingest script holds the paper
+// for review instead of indexing the wrong value. Exits with status 1 when one doesn't.
+//
+// Usage (from project root):
+//   npm run check-metadata                      # Every PDF in public/pdfs with a metadata.json entry
+//   npm run check-metadata -- paper1 paper8     # Only these papers
+//   npm run check-metadata -- --llm-metadata    # With the LLM pass (needs LLM_MODELS and keys)
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+
+// --- Configuration ---
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+const { extractPaperMetadata, requiredMetadataFields, reviewConfidence } = await import('../lib/ingest/metadata');
+
+const pdfsFolderPath = path.join(__dirname, '../public/pdfs');
+const metadataFilePath = path.join(pdfsFolderPath, 'metadata.json');
+const useLlmMetadata = process.argv.includes('--llm-metadata');
+const onlyPaperIds = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+
+// Abstracts in metadata.json may be the first part of the paper's; an extracted abstract
+// with this share of their words counts as the same
+const minAbstractRecall = 0.9;
+
+// --- Helper Functions ---
+
+// Lowercase words, with ligatures ("ﬁ") expanded and punctuation dropped; words the PDF ran
+// together stay together, so they don't match
+function words(text) {
+    return text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Share of the expected words found in the extracted text, counting repeats
+function wordRecall(extracted, expected) {
+    const counts = new Map();
+    for (const word of extracted) counts.set(word, (counts.get(word) ?? 0) + 1);
+    let found = 0;
+    for (const word of expected) {
+        if (!counts.get(word)) continue;
+        counts.set(word, counts.get(word) - 1);
+        found++;
+    }
+    return expected.length === 0 ? 1 : found / expected.length;
+}
+
+function isCorrect(name, extracted, expected) {
+    switch (name) {
+        case 'title':
+            return words(extracted.value).join(' ') === words(expected).join(' ');
+        case 'authors':
+            return extracted.value.length === expected.length
+                && extracted.value.every((author, i) => words(author).join(' ') === words(expected[i]).join(' '));
+        case 'abstract':
+            return wordRecall(words(extracted.value), words(expected)) >= minAbstractRecall;
+        case 'year':
+            // The arXiv stamp gives the year of the first version, which for conference
+            // papers is often the year before the one in metadata.json
+            return extracted.value === expected || (extracted.method === 'arxiv-stamp' && extracted.value === expected - 1);
+    }
+}
+
+function describe(value) {
+    const text = Array.isArray(value) ? value.join('; ') : String(value);
+    return text.length > 70 ? `${text.slice(0, 70)}…` : text;
+}
+
+// --- Main Check ---
+async function checkMetadata() {
+    const metadataMap = JSON.parse(await fs.readFile(metadataFilePath, 'utf-8'));
+    const pdfFiles = (await fs.readdir(pdfsFolderPath))
+        .filter(file => path.extname(file).toLowerCase() === '.pdf')
+        .filter(file => metadataMap[path.basename(file, '.pdf')])
+        .filter(file => onlyPaperIds.length === 0 || onlyPaperIds.includes(path.basename(file, '.pdf')));
+    console.log(`Checking extracted metadata for ${pdfFiles.length} papers${useLlmMetadata ? ' with the LLM pass' : ''}...`);
+
+    const failures = [];
+    for (const pdfFile of pdfFiles) {
+        const paperId = path.basename(pdfFile, '.pdf');
+        const extracted = await extractPaperMetadata(await fs.readFile(path.join(pdfsFolderPath, pdfFile)), { useLlm: useLlmMetadata });
+        console.log(`\n${paperId}:`);
+
+        for (const name of requiredMetadataFields) {
+            const field = extracted[name];
+            const expected = metadataMap[paperId][name];
+            if (expected === undefined) continue;
+            const confidence = field?.confidence ?? 0;
+            const correct = field !== undefined && isCorrect(name, field, expected);
+            const flagged = confidence < reviewConfidence;
+            // Wrong but confident is the only failure; right but flagged only costs a review
+            const status = correct ? (flagged ? 'ok, flagged' : 'ok') : (flagged ? 'wrong, flagged' : 'WRONG');
+            console.log(`  ${name.padEnd(8)} ${confidence.toFixed(2)}  ${status.padEnd(14)} ${field ? describe(field.value) : '(not found)'}`);
+            if (!correct && !flagged) failures.push(`${paperId} ${name}: got "${describe(field.value)}", expected "${describe(expected)}"`);
+        }
+    }
+
+    if (failures.length > 0) {
+        console.error(`\n${failures.length} fields were extracted wrong with confidence of at least ${reviewConfidence}:`);
+        failures.forEach(failure => console.error(` - ${failure}`));
+        process.exitCode = 1;
+        return;
+    }
+    console.log('\nEvery wrong field would be held for review. ✅');
+}
+
+checkMetadata().catch(error => {
+    console.error('An unexpected error occurred while checking metadata:', error);
+    process.exitCode = 1;
+});
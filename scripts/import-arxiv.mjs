@@ -0,0 +1,225 @@
+// Import papers from arXiv: map Atom entries to the `papers` schema in metadata.json and
+// download their PDFs to public/pdfs, where `npm run ingest` chunks and embeds them.
+//
+// Usage (from project root):
+//   node scripts/import-arxiv.mjs export.xml             # Atom feed saved from the arXiv API
+//   node scripts/import-arxiv.mjs 1706.03762 1810.04805v2 # arXiv ids, fetched from the API
+//   node scripts/import-arxiv.mjs ids.txt                 # One id per line; # starts a comment
+//   node scripts/import-arxiv.mjs --ingest ...            # Run the ingest script when done
+import path from 'path';
+import fs from 'fs/promises';
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+
+// --- Configuration ---
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const pdfsFolderPath = path.join(__dirname, '../public/pdfs');
+const metadataFilePath = path.join(pdfsFolderPath, 'metadata.json');
+const arxivApiUrl = 'https://export.arxiv.org/api/query';
+const apiBatchSize = 100; // Ids per API request
+const requestDelayMs = 3000; // arXiv asks API clients to wait 3 seconds between requests
+
+// --- Helper Functions ---
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const xmlEntities = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text) {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity) => {
+        if (entity[0] !== '#') return xmlEntities[entity] ?? match;
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return String.fromCodePoint(code);
+    });
+}
+
+// Text of the first <tag> element, with line breaks and runs of spaces collapsed
+function elementText(xml, tag) {
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+    return match ? decodeXml(match[1]).replace(/\s+/g, ' ').trim() : '';
+}
+
+function attribute(tagXml, name) {
+    const match = tagXml.match(new RegExp(`\\s${name}="([^"]*)"`));
+    return match ? decodeXml(match[1]) : undefined;
+}
+
+// Accepts 1706.03762, 1706.03762v5, arXiv:1706.03762, hep-th/9901001 and abs/pdf URLs.
+// Returns { arxivId, version }, version undefined for the latest; null for anything else.
+function parseArxivId(text) {
+    const match = text.trim().match(/^(?:arxiv:|https?:\/\/(?:export\.)?arxiv\.org\/(?:abs|pdf)\/)?([a-z-]+(?:\.[a-z]{2})?\/\d{7}|\d{4}\.\d{4,5})(?:v(\d+))?(?:\.pdf)?$/i);
+    return match ? { arxivId: match[1], version: match[2] ? parseInt(match[2], 10) : undefined } : null;
+}
+
+// Old-style ids (hep-th/9901001) contain a slash, which file names and routes can't
+function paperIdFor(arxivId) {
+    return arxivId.replace('/', '_');
+}
+
+// Map one Atom <entry> to a metadata.json entry plus where to download its PDF.
+// Returns null for entries that aren't arXiv papers, e.g. the API's error entries.
+function parseEntry(entryXml) {
+    const id = parseArxivId(elementText(entryXml, 'id'));
+    if (!id || id.version === undefined) return null;
+
+    const primaryTag = entryXml.match(/<(?:\w+:)?primary_category\s[^>]*>/);
+    const primaryCategory = primaryTag ? attribute(primaryTag[0], 'term') : undefined;
+    const categories = [...entryXml.matchAll(/<category\s[^>]*>/g)].map(tag => attribute(tag[0], 'term')).filter(Boolean);
+    const authors = [...entryXml.matchAll(/<author(?:\s[^>]*)?>([\s\S]*?)<\/author>/g)].map(author => elementText(author[1], 'name')).filter(Boolean);
+    const pdfLink = [...entryXml.matchAll(/<link\s[^>]*>/g)].map(tag => tag[0]).find(tag => attribute(tag, 'title') === 'pdf');
+    const published = elementText(entryXml, 'published');
+
+    return {
+        paperId: paperIdFor(id.arxivId),
+        pdfUrl: (pdfLink && attribute(pdfLink, 'href') || `https://arxiv.org/pdf/${id.arxivId}v${id.version}`).replace(/^http:/, 'https:'),
+        metadata: {
+            title: elementText(entryXml, 'title'),
+            abstract: elementText(entryXml, 'summary'),
+            authors,
+            // Primary category first, as citation exports expect
+            categories: [...new Set([primaryCategory, ...categories].filter(Boolean))],
+            year: parseInt(published.slice(0, 4), 10) || undefined,
+            source: 'arxiv',
+            arxivId: id.arxivId,
+            arxivVersion: id.version,
+        },
+    };
+}
+
+function parseFeed(xml) {
+    return [...xml.matchAll(/<entry(?:\s[^>]*)?>([\s\S]*?)<\/entry>/g)].map(entry => parseEntry(entry[1])).filter(Boolean);
+}
+
+// Fetch entries for ids from the arXiv API, in batches
+async function fetchEntries(ids) {
+    const entries = [];
+    for (let i = 0; i < ids.length; i += apiBatchSize) {
+        if (i > 0) await sleep(requestDelayMs);
+        const batch = ids.slice(i, i + apiBatchSize).map(id => id.version ? `${id.arxivId}v${id.version}` : id.arxivId);
+        const url = `${arxivApiUrl}?id_list=${encodeURIComponent(batch.join(','))}&max_results=${batch.length}`;
+        console.log(`Fetching ${batch.length} entries from the arXiv API...`);
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`arXiv API request failed with status ${response.status}`);
+        entries.push(...parseFeed(await response.text()));
+    }
+    return entries;
+}
+
+// Split the command line into Atom feeds and arXiv ids; files that aren't XML hold ids
+async function readInputs(args) {
+    const feeds = [];
+    const ids = [];
+    for (const arg of args) {
+        let content = null;
+        try {
+            content = await fs.readFile(arg, 'utf-8');
+        } catch (error) {
+            if (error.code !== 'ENOENT') throw error;
+        }
+
+        if (content !== null && content.trimStart().startsWith('<')) {
+            feeds.push(content);
+            continue;
+        }
+
+        const tokens = content === null ? [arg] : content.split('\n').map(line => line.replace(/#.*/, '').trim()).filter(Boolean);
+        for (const token of tokens) {
+            const id = parseArxivId(token);
+            if (id) ids.push(id);
+            else console.warn(`Skipping "${token}": not an arXiv id or a file.`);
+        }
+    }
+    return { feeds, ids };
+}
+
+async function fileExists(filePath) {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function downloadPdf(url, filePath) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+    // Write to a temporary file first, so an interrupted download never looks like a PDF to ingest.mjs
+    const partialPath = `${filePath}.part`;
+    await fs.writeFile(partialPath, Buffer.from(await response.arrayBuffer()));
+    await fs.rename(partialPath, filePath);
+}
+
+// Run the chunk/embed pipeline over the downloaded PDFs
+function runIngest() {
+    return new Promise((resolve, reject) => {
+        const child = spawn(process.execPath, ['--import', 'tsx', path.join(__dirname, 'ingest.mjs')], { stdio: 'inherit' });
+        child.on('error', reject);
+        child.on('exit', code => code === 0 ? resolve() : reject(new Error(`ingest.mjs exited with code ${code}`)));
+    });
+}
+
+// --- Main Import Logic ---
+async function importArxiv() {
+    const args = process.argv.slice(2);
+    const ingest = args.includes('--ingest');
+    const { feeds, ids } = await readInputs(args.filter(arg => arg !== '--ingest'));
+    if (feeds.length === 0 && ids.length === 0) {
+        console.error('Usage: node scripts/import-arxiv.mjs [--ingest] <feed.xml | ids.txt | arXiv id>...');
+        process.exitCode = 1;
+        return;
+    }
+
+    const entries = feeds.flatMap(parseFeed);
+    if (ids.length > 0) entries.push(...await fetchEntries(ids));
+    console.log(`Found ${entries.length} arXiv entries.`);
+
+    let metadataMap = {};
+    try {
+        metadataMap = JSON.parse(await fs.readFile(metadataFilePath, 'utf-8'));
+    } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+    }
+
+    let imported = 0;
+    let downloads = 0;
+    for (const { paperId, pdfUrl, metadata } of entries) {
+        const pdfPath = path.join(pdfsFolderPath, `${paperId}.pdf`);
+        const existing = metadataMap[paperId];
+        imported++;
+
+        // Keep newer versions already imported, e.g. when a saved feed is older
+        if (existing?.arxivVersion > metadata.arxivVersion && await fileExists(pdfPath)) continue;
+
+        // Re-download only for a new version; ingest.mjs then sees the changed PDF and re-chunks it
+        if (existing?.arxivVersion !== metadata.arxivVersion || !await fileExists(pdfPath)) {
+            if (downloads++ > 0) await sleep(requestDelayMs);
+            try {
+                await downloadPdf(pdfUrl, pdfPath);
+                console.log(`Downloaded ${metadata.arxivId}v${metadata.arxivVersion}: ${metadata.title}`);
+            } catch (error) {
+                console.error(` -> Error downloading ${pdfUrl}:`, error.message);
+                imported--;
+                continue;
+            }
+        }
+
+        metadataMap[paperId] = metadata;
+    }
+
+    await fs.writeFile(metadataFilePath, JSON.stringify(metadataMap, null, 2) + '\n');
+    console.log(`\nImported ${imported} of ${entries.length} papers into ${metadataFilePath}.`);
+
+    if (ingest) {
+        await runIngest();
+    } else if (imported > 0) {
+        console.log('Run `npm run ingest` to index them.');
+    }
+}
+
+importArxiv().catch(error => {
+    console.error('arXiv import failed:', error);
+    process.exitCode = 1;
+});
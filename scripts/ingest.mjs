@@ -1,13 +1,10 @@
 // Use ES Module import syntax
+// Run with `npm run ingest`: tsx lets this script import the TypeScript pipeline in lib/ingest
 import dotenv from 'dotenv';
+import { createHash } from 'crypto';
 import path from 'path';
-import Typesense from 'typesense';
-import { QdrantClient } from '@qdrant/js-client-rest';
 import fs from 'fs/promises'; // Use promises version for async/await
-import { PdfReader } from 'pdfreader'; // Correct import for pdfreader
-import { pipeline } from '@xenova/transformers'; // Can use top-level import in ESM
 import { fileURLToPath } from 'url'; // Helper to get __dirname in ESM
-import { v5 as uuidv5 } from 'uuid'; // Import v5 function for deterministic UUIDs
 
 // --- Configuration ---
 // Get __dirname equivalent in ES module
@@ -18,158 +15,73 @@ const __dirname = path.dirname(__filename);
 dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
 console.log('DEBUG: Typesense Admin Key Loaded:', process.env.TYPESENSE_ADMIN_API_KEY); // Keep debug line
 
+// Imported after loading the environment, which the Typesense and Qdrant clients read on import
+const { contentHash, deletePaper, indexedPapers, ingestPaperChunks, setUpCollections, storedContentHashes } = await import('../lib/ingest');
+const { TypesenseSearchService } = await import('../lib/search/typesense');
+const { extractPaperMetadata, fieldsNeedingReview, metadataExtractorVersion, requiredMetadataFields } = await import('../lib/ingest/metadata');
+
 const pdfsFolderPath = path.join(__dirname, '../public/pdfs'); // Path to your PDFs
 const metadataFilePath = path.join(pdfsFolderPath, 'metadata.json'); // Path to metadata file
-const typesenseCollectionName = 'papers';
-const qdrantCollectionName = 'paper_chunks';
-const embeddingModelName = 'Xenova/all-MiniLM-L6-v2'; // A good small & fast model
-const chunkSize = 500; // Characters per chunk (adjust as needed)
-const chunkOverlap = 50; // Characters overlap between chunks
-
-// --- Initialize Clients ---
-const typesenseClient = new Typesense.Client({
-    nodes: [{
-        host: process.env.NEXT_PUBLIC_TYPESENSE_HOST,
-        port: parseInt(process.env.NEXT_PUBLIC_TYPESENSE_PORT || '443', 10),
-        protocol: process.env.NEXT_PUBLIC_TYPESENSE_PROTOCOL,
-    }],
-    apiKey: process.env.TYPESENSE_ADMIN_API_KEY, // Use Admin key for creation/writing
-    connectionTimeoutSeconds: 10,
-});
-
-const qdrantClient = new QdrantClient({
-    url: process.env.QDRANT_URL,
-    apiKey: process.env.QDRANT_API_KEY,
-});
-
-// --- Helper Functions ---
-
-// Function to extract text from a PDF file using pdfreader
-async function extractTextFromPDF(filePath) {
-    return new Promise((resolve, reject) => {
-        let fullText = '';
-        new PdfReader(null).parseFileItems(filePath, (err, item) => {
-            if (err) {
-                console.error(`Error reading PDF ${filePath}:`, err);
-                reject(err); // Reject the promise on error
-            } else if (!item) {
-                // End of file
-                // console.log(`Extracted text from ${path.basename(filePath)}`);
-                resolve(fullText); // Resolve the promise with the full text
-            } else if (item.text) {
-                // Append text item
-                fullText += item.text + ' '; // Add space between items
-            }
-        });
-    });
+// Metadata extracted from PDFs missing from metadata.json, with confidences and the fields to review
+const extractedMetadataFilePath = path.join(pdfsFolderPath, 'metadata.extracted.json');
+
+// `npm run ingest -- --full` drops both collections and re-ingests every PDF
+const fullRebuild = process.argv.includes('--full');
+// `--llm-metadata` asks the LLM to check extracted metadata the layout heuristics aren't sure of
+const useLlmMetadata = process.argv.includes('--llm-metadata');
+
+// Whether a metadata.json field has a usable value
+function hasValue(value) {
+    return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== '';
 }
 
+// Fill in the required fields metadata.json lacks from the PDF itself. Extractions are
+// cached in metadata.extracted.json by PDF hash, so unchanged PDFs aren't read again.
+async function extractMissingMetadata(paperId, pdf, paperMetadata, cached) {
+    const missing = requiredMetadataFields.filter(name => !hasValue(paperMetadata[name]));
+    if (missing.length === 0) return null;
 
-// Function to split text into overlapping chunks
-function chunkText(text, size, overlap) {
-    const chunks = [];
-    let start = 0;
-    while (start < text.length) {
-        const end = start + size;
-        chunks.push(text.slice(start, end));
-        start += size - overlap;
-         // Prevent negative start index or infinite loop on zero/negative overlap+size
-         if (size - overlap <= 0) {
-              if (start === 0 && text.length > 0) break; // Avoid infinite loop if step size is non-positive but text exists
-              start = end; // Ensure progression even if overlap >= size
-         }
+    const pdfHash = createHash('sha256').update(pdf).digest('hex');
+    if (cached?.pdfHash === pdfHash && cached.extractorVersion === metadataExtractorVersion && (cached.usedLlm || !useLlmMetadata)) {
+        return { ...cached, needsReview: fieldsNeedingReview(cached.fields, missing) };
     }
-    // Filter out empty or whitespace-only chunks
-    return chunks.filter(chunk => chunk && chunk.trim().length > 0);
-}
 
-// Define a constant namespace UUID for generating point IDs
-const QDRANT_UUID_NAMESPACE = '1b671a64-40d5-491e-99b0-da01ff1f3341'; // Just a fixed, random UUID
+    console.log(` -> Extracting metadata for ${paperId} (missing from metadata.json: ${missing.join(', ')})...`);
+    const fields = await extractPaperMetadata(pdf, { useLlm: useLlmMetadata });
+    return {
+        pdfHash,
+        extractorVersion: metadataExtractorVersion,
+        usedLlm: useLlmMetadata,
+        extractedAt: new Date().toISOString(),
+        needsReview: fieldsNeedingReview(fields, missing),
+        fields,
+    };
+}
 
 // --- Main Ingestion Logic ---
 async function ingestData() {
-    console.log('Starting ingestion process...');
+    console.log(`Starting ${fullRebuild ? 'full' : 'incremental'} ingestion process...`);
+    const papers = new TypesenseSearchService();
 
-    // 1. Setup Typesense Collection
-    console.log('Setting up Typesense collection...');
+    // Papers fully ingested before this run, read before a full rebuild drops them; only the
+    // others are new to users' saved searches
+    let previouslyIngested = new Set();
     try {
-        // Delete collection if it exists
-        try {
-            await typesenseClient.collections(typesenseCollectionName).delete();
-            console.log(`Deleted existing Typesense collection: ${typesenseCollectionName}`);
-        } catch (error) {
-             if (error.httpStatus !== 404) {
-                  console.warn(`Could not delete existing Typesense collection (may not exist):`, error.message);
-             }
-        }
-
-        // Define Typesense schema
-        const typesenseSchema = {
-            name: typesenseCollectionName,
-            fields: [
-                { name: 'title', type: 'string' },
-                { name: 'abstract', type: 'string' },
-                { name: 'authors', type: 'string[]', facet: true },
-                { name: 'categories', type: 'string[]', facet: true },
-                { name: 'year', type: 'int32', facet: true },
-                { name: 'pdfUrl', type: 'string' },
-                { name: 'source', type: 'string', facet: true },
-            ],
-            default_sorting_field: 'year',
-        };
-        await typesenseClient.collections().create(typesenseSchema);
-        console.log(`Created Typesense collection: ${typesenseCollectionName}`);
-    } catch (error) {
-        console.error('Error setting up Typesense:', error);
-        return;
+        previouslyIngested = new Set((await storedContentHashes()).keys());
+    } catch {
+        // First run: the Qdrant collection doesn't exist yet
     }
 
-    // 2. Setup Qdrant Collection
-    console.log('Setting up Qdrant collection...');
+    // 1. Setup Typesense and Qdrant Collections
+    console.log('Setting up collections...');
     try {
-        // Check if collection exists first and delete if it does
-         try {
-             await qdrantClient.getCollection(qdrantCollectionName);
-             console.log(`Qdrant collection "${qdrantCollectionName}" already exists. Deleting...`);
-             await qdrantClient.deleteCollection(qdrantCollectionName);
-             console.log(`Deleted existing Qdrant collection: ${qdrantCollectionName}`);
-         } catch (error) {
-             if (error.status !== 404) {
-                 console.error('Error checking/deleting existing Qdrant collection:', error);
-                 throw error;
-             } else {
-                 console.log(`Qdrant collection "${qdrantCollectionName}" does not exist. Creating...`);
-             }
-         }
-
-        // Create Qdrant collection
-        await qdrantClient.createCollection(qdrantCollectionName, {
-            vectors: { size: 384, distance: 'Cosine' },
-        });
-         // Create payload index for paperId filtering
-        await qdrantClient.createPayloadIndex(qdrantCollectionName, {
-            field_name: "paperId",
-            field_schema: "keyword",
-            wait: true,
-        });
-        console.log(`Created Qdrant collection: ${qdrantCollectionName}`);
+        await setUpCollections(fullRebuild);
     } catch (error) {
-        console.error('Error setting up Qdrant collection:', error);
+        console.error('Error setting up collections:', error);
         return;
     }
 
-    // 3. Load Embedding Pipeline
-    console.log(`Loading embedding model: ${embeddingModelName}...`);
-    let embedder;
-    try {
-        embedder = await pipeline('feature-extraction', embeddingModelName, { quantized: false });
-    } catch (error) {
-        console.error("Failed to load the embedding model:", error);
-        return;
-    }
-    console.log('Embedding model loaded.');
-
-    // 4. Load metadata from JSON file
+    // 2. Load metadata from JSON file
     console.log(`Loading metadata from: ${metadataFilePath}`);
     let metadataMap = {};
     try {
@@ -177,10 +89,19 @@ async function ingestData() {
         metadataMap = JSON.parse(metadataContent);
         console.log(`Loaded metadata for ${Object.keys(metadataMap).length} papers.`);
     } catch (error) {
-        console.warn('Warning: Could not load metadata.json. Using placeholder data.', error.message);
+        console.warn('Warning: Could not load metadata.json. Extracting metadata from the PDFs.', error.message);
     }
 
-    // 5. Process PDFs
+    let previousExtractions = {};
+    try {
+        previousExtractions = JSON.parse(await fs.readFile(extractedMetadataFilePath, 'utf-8'));
+    } catch {
+        // First run, or nothing has been extracted yet
+    }
+    const extractions = {}; // Rewritten each run, so it only lists papers still missing from metadata.json
+    const papersNeedingReview = [];
+
+    // 3. Process PDFs
     console.log(`Reading PDFs from: ${pdfsFolderPath}`);
     let pdfFiles;
     try {
@@ -190,124 +111,164 @@ async function ingestData() {
         console.error('Error reading PDF directory:', error);
         return;
     }
+    console.log(`Found ${pdfFiles.length} PDF files.`);
 
-    if (pdfFiles.length === 0) {
-        console.error(`No PDF files found in ${pdfsFolderPath}. Please add some PDFs.`);
+    let storedHashes;
+    try {
+        storedHashes = await storedContentHashes();
+    } catch (error) {
+        console.error('Error reading stored content hashes from Qdrant:', error);
         return;
     }
-    console.log(`Found ${pdfFiles.length} PDF files.`);
 
-    // --- Batching for Qdrant ---
-    let qdrantPointsBatch = [];
-    const qdrantBatchSize = 100;
+    // --- Prune Papers Whose PDFs Were Deleted ---
+    // Papers uploaded through the app live outside public/pdfs and are left alone
+    const currentPaperIds = new Set(pdfFiles.map(pdfFile => path.basename(pdfFile, '.pdf')));
+    try {
+        for (const paper of await indexedPapers()) {
+            if (currentPaperIds.has(paper.id) || paper.uploadedBy) continue;
+            await deletePaper(paper.id);
+            console.log(`Pruned ${paper.id}: its PDF no longer exists.`);
+        }
+    } catch (error) {
+        console.error('Error pruning deleted papers:', error);
+    }
+
+    const ingestedPaperIds = []; // New or changed papers
+    const newPaperIds = []; // Papers not ingested before, reported to the saved-search matcher at the end
+    let skipped = 0;
+    let withoutText = 0;
 
     for (const pdfFile of pdfFiles) {
         const filePath = path.join(pdfsFolderPath, pdfFile);
         const paperId = path.basename(pdfFile, '.pdf');
-        console.log(`\nProcessing: ${pdfFile}...`);
 
-        // --- Get Metadata from JSON or use placeholders ---
+        let pdf;
+        try {
+            pdf = await fs.readFile(filePath);
+        } catch (error) {
+            console.error(` -> Error reading ${pdfFile}:`, error);
+            continue;
+        }
+
+        // --- Get Metadata from JSON, or extract what's missing from the PDF ---
         const paperMetadata = metadataMap[paperId] || {};
+        let extraction;
+        try {
+            extraction = await extractMissingMetadata(paperId, pdf, paperMetadata, previousExtractions[paperId]);
+        } catch (error) {
+            console.error(` -> Error extracting metadata for ${paperId}:`, error);
+            continue;
+        }
+        if (extraction) extractions[paperId] = extraction;
+
+        // Papers with required fields the extractor isn't sure of wait for someone to add
+        // them to metadata.json, rather than being indexed with wrong metadata
+        if (extraction?.needsReview.length > 0) {
+            papersNeedingReview.push(`${paperId} (${extraction.needsReview.join(', ')})`);
+            if (storedHashes.has(paperId)) {
+                await deletePaper(paperId);
+                storedHashes.delete(paperId);
+                console.log(` -> Removed ${paperId} from the index until its metadata is reviewed.`);
+            }
+            continue;
+        }
+
+        const extracted = extraction?.fields ?? {};
+        const arxivId = paperMetadata.arxivId || extracted.arxivId?.value;
+        const arxivVersion = paperMetadata.arxivId ? paperMetadata.arxivVersion : extracted.arxivVersion?.value;
         const metadata = {
             id: paperId,
-            title: paperMetadata.title || `Title for ${paperId}`,
-            abstract: paperMetadata.abstract || `Abstract for ${paperId}...`,
-            authors: paperMetadata.authors || ['Author A', 'Author B'],
-            categories: paperMetadata.categories || ['cs.AI', 'cs.LG'],
-            year: paperMetadata.year || 2024,
+            title: paperMetadata.title || extracted.title.value,
+            abstract: paperMetadata.abstract || extracted.abstract.value,
+            authors: hasValue(paperMetadata.authors) ? paperMetadata.authors : extracted.authors.value,
+            categories: paperMetadata.categories || extracted.categories?.value || [],
+            year: paperMetadata.year || extracted.year.value,
             pdfUrl: `/pdfs/${pdfFile}`, // URL relative to public
-            source: 'upload',
+            source: paperMetadata.source || 'upload',
+            ...(arxivId ? { arxivId, arxivVersion } : {}),
         };
 
-        // 4a. Add metadata to Typesense
+        // 3a. Add metadata to Typesense. Upserting is cheap, so metadata.json edits are
+        // picked up even when the PDF itself hasn't changed.
         try {
-            await typesenseClient.collections(typesenseCollectionName).documents().upsert(metadata);
-            console.log(` -> Upserted metadata to Typesense for ${paperId}`);
+            await papers.upsert(metadata);
         } catch (error) {
             console.error(` -> Error upserting metadata to Typesense for ${paperId}:`, error);
             continue;
         }
 
-        // 4b. Extract text, chunk, embed, prepare for Qdrant
-        const text = await extractTextFromPDF(filePath);
-        if (!text) {
-            console.log(` -> Skipping Qdrant ingestion for ${pdfFile} due to text extraction error.`);
+        // Skip PDFs whose chunks are already up to date
+        const hash = contentHash(pdf);
+        if (storedHashes.get(paperId) === hash) {
+            skipped++;
             continue;
         }
+        console.log(`\nProcessing: ${pdfFile} (${storedHashes.has(paperId) ? 'changed' : 'new'})...`);
 
-        const chunks = chunkText(text, chunkSize, chunkOverlap);
-        if (chunks.length === 0) {
-            console.log(` -> No text chunks generated for ${pdfFile}. Skipping Qdrant ingestion.`);
-            continue;
-        }
-         console.log(` -> Extracted text, created ${chunks.length} chunks.`);
-
-        // Generate embeddings
-         console.log(` -> Generating embeddings for ${chunks.length} chunks...`);
-        let chunkEmbeddings;
+        // 3b. Extract text, chunk, embed and upsert to Qdrant
         try {
-             const embeddingBatchSize = 32;
-             chunkEmbeddings = [];
-             for (let i = 0; i < chunks.length; i += embeddingBatchSize) {
-                 const batchChunks = chunks.slice(i, i + embeddingBatchSize);
-                 const batchEmbeddingsTensor = await embedder(batchChunks, { pooling: 'mean', normalize: true });
-                 chunkEmbeddings.push(...batchEmbeddingsTensor.tolist());
-                 console.log(`    -> Embedded chunk batch ${Math.floor(i / embeddingBatchSize) + 1}/${Math.ceil(chunks.length / embeddingBatchSize)}`);
-             }
-        } catch (error) {
-             console.error(` -> Error generating embeddings for ${paperId}:`, error);
-             continue;
-        }
-        console.log(` -> Embeddings generated.`);
-
-        // Prepare Qdrant points
-        for (let i = 0; i < chunks.length; i++) {
-            // Generate a deterministic UUID v5 based on paperId and chunk index
-            const chunkId = uuidv5(`${paperId}_${i}`, QDRANT_UUID_NAMESPACE);
-            qdrantPointsBatch.push({
-                id: chunkId,
-                vector: chunkEmbeddings[i],
-                payload: {
-                    paperId: paperId,
-                    chunkText: chunks[i],
-                    chunkIndex: i,
-                },
-            });
-
-            // Send batch if full
-            if (qdrantPointsBatch.length >= qdrantBatchSize) {
-                console.log(` -> Sending batch of ${qdrantPointsBatch.length} points to Qdrant...`);
-                try {
-                    // *** CORRECTED QDRANT CALL ***
-                    await qdrantClient.upsert(qdrantCollectionName, {
-                        wait: true,
-                        points: qdrantPointsBatch,
-                    });
-                    qdrantPointsBatch = [];
-                } catch (error) {
-                    console.error(` -> Error sending batch to Qdrant:`, error);
-                }
+            const chunks = await ingestPaperChunks(paperId, pdf, hash);
+            if (chunks === 0) {
+                console.log(` -> No text chunks generated for ${pdfFile}. Skipping Qdrant ingestion.`);
+                withoutText++;
+                continue;
             }
+            console.log(` -> Upserted ${chunks} chunks to Qdrant.`);
+            // PDFs without text have no chunks to store a hash in, so they are read again each
+            // run; only papers with chunks count as ingested and go to the saved-search matcher
+            ingestedPaperIds.push(paperId);
+            if (!previouslyIngested.has(paperId)) newPaperIds.push(paperId);
+        } catch (error) {
+            console.error(` -> Error ingesting chunks for ${paperId}:`, error);
         }
     } // End PDF loop
 
-    // Send final batch
-    if (qdrantPointsBatch.length > 0) {
-        console.log(`\nSending final batch of ${qdrantPointsBatch.length} points to Qdrant...`);
-        try {
-            // *** CORRECTED QDRANT CALL ***
-            await qdrantClient.upsert(qdrantCollectionName, {
-                wait: true,
-                points: qdrantPointsBatch,
-            });
-        } catch (error) {
-            console.error(` -> Error sending final batch to Qdrant:`, error);
-        }
+    try {
+        await fs.writeFile(extractedMetadataFilePath, JSON.stringify(extractions, null, 2) + '\n');
+    } catch (error) {
+        console.error('Error writing extracted metadata:', error);
     }
 
+    console.log(`\n${ingestedPaperIds.length} papers ingested, ${skipped} unchanged${withoutText ? `, ${withoutText} without text` : ''}.`);
+    if (papersNeedingReview.length > 0) {
+        console.warn(`\n${papersNeedingReview.length} papers were not indexed because their extracted metadata needs review:`);
+        papersNeedingReview.forEach(paper => console.warn(` - ${paper}`));
+        console.warn(`Check the guesses in ${path.relative(process.cwd(), extractedMetadataFilePath)} and add the fields to metadata.json.`);
+    }
+    await notifySavedSearches(newPaperIds);
+
     console.log('\nIngestion process completed successfully! ✅');
 }
 
+// Ask the running app to check newly ingested papers against users' saved searches.
+// Skipped unless APP_URL and INGEST_SECRET are set.
+async function notifySavedSearches(paperIds) {
+    const appUrl = process.env.APP_URL;
+    const secret = process.env.INGEST_SECRET;
+    if (!appUrl || !secret || paperIds.length === 0) {
+        console.log('\nSkipping saved-search matching (APP_URL or INGEST_SECRET not set).');
+        return;
+    }
+
+    console.log(`\nMatching ${paperIds.length} papers against saved searches...`);
+    try {
+        const response = await fetch(`${appUrl}/api/saved-searches/match`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-ingest-secret': secret },
+            body: JSON.stringify({ paperIds }),
+        });
+        if (!response.ok) {
+            console.error(` -> Saved-search matching failed with status ${response.status}:`, await response.text());
+            return;
+        }
+        const { alerted } = await response.json();
+        console.log(` -> ${alerted} saved searches have new matches.`);
+    } catch (error) {
+        console.error(' -> Error calling saved-search matcher:', error.message);
+    }
+}
+
 // Run the main function
 ingestData().catch(error => {
     console.error('An unexpected error occurred during the ingestion script:', error);